@@ -1,22 +1,72 @@
 import { defineConfig, devices } from '@playwright/test';
+import { resolveTarget, resolveBaseURL, MOCK_TRANSLATOR_URL } from './tests/utils/target';
+
+const target = resolveTarget();
 
 export default defineConfig({
   testDir: './tests',
+  // The screenshot suite depends on platform font rendering and its baselines, so it only runs when
+  // asked for (VISUAL_TESTS=1, see npm run test:visual)
+  testIgnore: process.env.VISUAL_TESTS ? [] : ['**/visual.spec.ts'],
+  // Lints the test data and aborts the run on issues (SKIP_DATA_LINT=1 to bypass)
+  globalSetup: './tests/globalSetup.ts',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : undefined,
-  reporter: 'html',
+  expect: {
+    // Visual suite: tolerate anti-aliasing noise, but not a conjunct split into separate glyphs
+    toHaveScreenshot: { maxDiffPixelRatio: 0.01, threshold: 0.2, animations: 'disabled', caret: 'hide' },
+  },
+  reporter: [
+    ['html'],
+    // Assignment results table as CSV + XLSX in results/
+    ['./tests/reporters/resultsSheetReporter.ts', { outputDir: 'results', fileName: 'translation-results' }],
+    // p50/p95 latency per length type; fails the run when a p95 budget is exceeded
+    // (budgets: DEFAULT_LATENCY_BUDGETS in tests/utils/latency.ts, LATENCY_BUDGETS overrides them)
+    ['./tests/reporters/performanceReporter.ts', { outputDir: 'results' }],
+    // Stores new and accepted golden outputs of negative cases in tests/snapshots/golden-outputs.json
+    ['./tests/reporters/goldenSnapshotReporter.ts'],
+    // Markdown + JSON defect report per failed case in results/defects/
+    ['./tests/reporters/defectReportReporter.ts', { outputDir: 'results/defects' }],
+    // Actual output of every case per browser project, with the cases that differ between engines
+    ['./tests/reporters/browserComparisonReporter.ts', { outputDir: 'results' }],
+  ],
   use: {
-    baseURL: 'https://www.swifttranslator.com',
+    baseURL: resolveBaseURL(target),
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
   },
+  // The local mock translator is only started when TRANSLATOR_TARGET=mock
+  webServer: target === 'mock' ? {
+    command: 'npx tsx tests/mock/server.ts',
+    url: MOCK_TRANSLATOR_URL,
+    reuseExistingServer: !process.env.CI,
+    timeout: 30000,
+  } : undefined,
+  // Sinhala shaping and textarea input events differ between engines and on mobile
+  // (run a subset with --project, e.g. npm run test:chromium)
   projects: [
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
     },
+    {
+      name: 'firefox',
+      use: { ...devices['Desktop Firefox'] },
+    },
+    {
+      name: 'webkit',
+      use: { ...devices['Desktop Safari'] },
+    },
+    {
+      name: 'mobile-chrome',
+      use: { ...devices['Pixel 7'] },
+    },
+    {
+      name: 'mobile-safari',
+      use: { ...devices['iPhone 14'] },
+    },
   ],
 });
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import path from 'path';
+import { loadTestCases } from '../tests/utils/dataLoader';
+import { buildCategoryCoverage, formatCoverageMarkdown } from '../tests/utils/categories';
+
+/**
+ * Prints how many test cases cover each linguistic category, split by type and
+ * lengthType, and writes the table to results/category-coverage.md.
+ * Usage: npm run coverage:categories
+ */
+
+const coverage = buildCategoryCoverage(loadTestCases());
+const markdown = formatCoverageMarkdown(coverage);
+const outputFile = path.resolve('results', 'category-coverage.md');
+
+fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+fs.writeFileSync(outputFile, `# Test case coverage by category\n\n${markdown}\n`, 'utf8');
+
+console.log(markdown);
+console.log(`\nWritten to ${path.relative(process.cwd(), outputFile)}`);
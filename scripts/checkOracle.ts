@@ -0,0 +1,24 @@
+import { testCases } from '../tests/testData';
+import { crossCheck, describeComparison } from '../tests/utils/transliterator';
+
+/**
+ * Cross-checks every positive test case's expected value against the
+ * reference transliterator and prints the cases where they disagree.
+ * Usage: npm run oracle:check [-- --strict]
+ */
+
+const strict = process.argv.includes('--strict');
+const comparisons = testCases
+  .filter(tc => tc.type === 'positive')
+  .map(tc => crossCheck(tc));
+const disagreements = comparisons.filter(c => c.verdict !== 'all-agree');
+
+for (const comparison of disagreements) {
+  console.log(describeComparison(comparison));
+}
+
+console.log(`\n${comparisons.length - disagreements.length}/${comparisons.length} positive cases agree with the reference transliterator`);
+
+if (strict && disagreements.length > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,24 @@
+import { loadTestCases } from '../tests/utils/dataLoader';
+import { roundTrip, describeRoundTrip } from '../tests/utils/reverseTransliterator';
+
+/**
+ * Round-trips every positive test case's expected value: canonical(input) is
+ * compared with reverse(expected) and the syllables that differ are printed.
+ * Usage: npm run roundtrip:check [-- --strict]
+ */
+
+const strict = process.argv.includes('--strict');
+const results = loadTestCases()
+  .filter(tc => tc.type === 'positive')
+  .map(tc => roundTrip(tc, tc.expected));
+const failures = results.filter(result => !result.passed);
+
+for (const result of failures) {
+  console.log(`${result.id} ${describeRoundTrip(result)}`);
+}
+
+console.log(`\n${results.length - failures.length}/${results.length} positive cases round-trip`);
+
+if (strict && failures.length > 0) {
+  process.exit(1);
+}
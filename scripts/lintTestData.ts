@@ -0,0 +1,13 @@
+import { lintAllTestData, formatLintReport } from '../tests/utils/testDataLinter';
+
+/**
+ * Lints testData.ts and the CSV/JSON/XLSX data files.
+ * Usage: npm run lint:data
+ */
+
+const issues = lintAllTestData();
+console.log(formatLintReport(issues));
+
+if (issues.length > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,68 @@
+import { test, expect } from './fixtures';
+import { EDITING_SCENARIOS, performEdit, describeEdits } from './utils/textEditing';
+import { waitForStableOutput, readOutputText } from './utils/stableOutput';
+import { formatDiffHtml, formatDiffText } from './utils/graphemeDiff';
+
+/**
+ * Text editing suite: edits existing input with the keyboard (caret moves,
+ * mid-word inserts, backspace, paste, select-all-replace, undo) and checks that
+ * the output stays consistent with the input text, i.e. equals a fresh
+ * translation of that same text (see utils/textEditing.ts).
+ */
+
+test.describe('Editing Tests', () => {
+  for (const scenario of EDITING_SCENARIOS) {
+    test(`Editing: ${scenario.name}`, async ({ translator, page }) => {
+      test.info().annotations.push({ type: 'edits', description: describeEdits(scenario.steps) });
+
+      const inputLocator = await translator.input();
+      if (scenario.initial) {
+        await translator.translate(scenario.initial);
+      } else {
+        await inputLocator.clear();
+        await waitForStableOutput(await translator.output());
+      }
+      // translate() may have re-located the output, so take it afterwards
+      const outputLocator = await translator.output();
+
+      // Start with the caret at the end of the text, as after typing it
+      await inputLocator.focus();
+      await inputLocator.evaluate(el => {
+        const textarea = el as HTMLTextAreaElement;
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+      });
+
+      const outputBefore = await readOutputText(outputLocator);
+      for (const step of scenario.steps) {
+        await performEdit(page, inputLocator, step);
+      }
+
+      // The edit itself must have produced the intended text
+      const edited = await inputLocator.inputValue();
+      const inputProblem = scenario.checkInput(edited);
+      expect(inputProblem, `Input after editing is "${edited}"`).toBeNull();
+
+      // Wait for the output to react (an edit may leave it unchanged), then for it to settle
+      await waitForStableOutput(outputLocator, { baseline: outputBefore, timeout: 5000 }).catch(() => {});
+      await waitForStableOutput(outputLocator);
+      const editedOutput = await translator.readOutput();
+
+      // Same text entered from scratch
+      const fresh = await translator.translate(edited, { requireOutput: false });
+      test.info().annotations.push({ type: 'edited-output', description: `"${editedOutput}" (fresh: "${fresh.output}")` });
+
+      if (editedOutput !== fresh.output) {
+        await test.info().attach('grapheme-diff.html', {
+          body: formatDiffHtml(fresh.output, editedOutput),
+          contentType: 'text/html',
+        });
+        await test.info().attach('grapheme-diff.txt', {
+          body: formatDiffText(fresh.output, editedOutput),
+          contentType: 'text/plain',
+        });
+      }
+
+      expect(editedOutput, `Output after editing should match a fresh translation of "${edited}"`).toBe(fresh.output);
+    });
+  }
+});
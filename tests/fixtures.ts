@@ -0,0 +1,63 @@
+import { test as base, expect } from '@playwright/test';
+import { SwiftTranslatorPage } from './pages/SwiftTranslatorPage';
+import { describeOutputResolution } from './pages/translatorDom';
+import { HarMode, resolveHarMode, resolveHarDir, harFileFor, assertRecordingExists } from './utils/harRecording';
+
+/**
+ * Shared test fixtures.
+ * `translator` is a SwiftTranslatorPage that has already opened the translator;
+ * after the test it reports how the output element was located.
+ * `harRecording` runs for every test and records or replays its network traffic
+ * (see utils/harRecording.ts).
+ */
+
+export interface TranslatorOptions {
+  harMode: HarMode;
+  harDir: string;
+}
+
+export interface TranslatorFixtures {
+  translator: SwiftTranslatorPage;
+  harRecording: void;
+}
+
+export const test = base.extend<TranslatorFixtures & TranslatorOptions>({
+  harMode: [resolveHarMode(), { option: true }],
+  harDir: [resolveHarDir(), { option: true }],
+
+  harRecording: [async ({ context, harMode, harDir }, use, testInfo) => {
+    if (harMode !== 'off') {
+      const file = harFileFor(testInfo, harDir);
+      if (harMode === 'replay') {
+        assertRecordingExists(file, testInfo);
+      }
+      // Record: the HAR is written when the context closes. Replay: unrecorded requests are aborted so runs stay offline
+      await context.routeFromHAR(file, {
+        update: harMode === 'record',
+        updateContent: 'embed',
+        notFound: 'abort',
+      });
+    }
+    await use();
+  }, { auto: true }],
+
+  translator: async ({ page, browserName, isMobile }, use, testInfo) => {
+    // Engine and mobile emulation come from the project (see playwright.config.ts)
+    const translator = new SwiftTranslatorPage(page, { browserName, isMobile });
+    await translator.open();
+    await use(translator);
+
+    // Selector telemetry: winning strategy per lookup, with a warning for fallbacks and rejected candidates
+    const descriptions = new Set(translator.outputResolutions.map(describeOutputResolution));
+    for (const resolution of translator.outputResolutions) {
+      const description = describeOutputResolution(resolution);
+      if (!descriptions.delete(description)) {
+        continue;
+      }
+      const warn = resolution.fallback || resolution.rejected.length > 0;
+      testInfo.annotations.push({ type: warn ? 'output-locator-warning' : 'output-locator', description });
+    }
+  },
+});
+
+export { expect };
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from './fixtures';
+import { SwiftTranslatorPage } from './pages/SwiftTranslatorPage';
+import { loadTestCases } from './utils/dataLoader';
+import { createRandom, generateSinglish, joinTokens } from './utils/singlishGenerator';
+import { FuzzObservation, checkInvariants, shrinkInput, nextCaseNumber, toCandidateTestCase } from './utils/fuzz';
+
+/**
+ * Property-based fuzzing: random Singlish from the syllable grammar, checked
+ * against the translator invariants. Failing inputs are shrunk and written to
+ * results/fuzz-candidates/ as TestCase JSON files.
+ *
+ * FUZZ_RUNS: number of generated inputs (suite is skipped when unset; npm run test:fuzz sets 25)
+ * FUZZ_SEED: generator seed (default 1); the seed and index are in every test title
+ * FUZZ_SHRINK_ATTEMPTS: translator calls allowed while shrinking a failure (default 20)
+ */
+
+const seed = Number(process.env.FUZZ_SEED ?? 1);
+const runs = Number(process.env.FUZZ_RUNS ?? 0);
+const shrinkAttempts = Number(process.env.FUZZ_SHRINK_ATTEMPTS ?? 20);
+const CANDIDATES_DIR = path.resolve('results', 'fuzz-candidates');
+
+// Generated up front so every worker sees the same list of tests
+const random = createRandom(seed);
+const inputs = Array.from({ length: runs }, () => generateSinglish(random));
+const firstCandidateNumber = nextCaseNumber(loadTestCases());
+
+/**
+ * Translates and clears the input, collecting page errors and thrown exceptions
+ */
+async function observe(translator: SwiftTranslatorPage, text: string): Promise<FuzzObservation> {
+  const errors: string[] = [];
+  const onPageError = (error: Error) => errors.push(`page error: ${error.message}`);
+  translator.page.on('pageerror', onPageError);
+
+  try {
+    const result = await translator.translate(text, { requireOutput: false });
+    const cleared = await translator.clear();
+    return { output: result.output, clearedOutput: cleared.output, errors };
+  } catch (e) {
+    errors.push((e as Error).message);
+    return { output: '', clearedOutput: '', errors };
+  } finally {
+    translator.page.off('pageerror', onPageError);
+  }
+}
+
+test.describe('Fuzz', () => {
+  test.skip(runs === 0, 'Set FUZZ_RUNS (or use npm run test:fuzz) to run the fuzz suite');
+
+  inputs.forEach((generated, index) => {
+    const label = `seed ${seed} #${index + 1}`;
+
+    test(`Fuzz: ${label} - ${generated.text}`, async ({ translator }) => {
+      const observation = await observe(translator, generated.text);
+      const violations = checkInvariants(generated.tokens, observation);
+      test.info().annotations.push({ type: 'fuzz-output', description: observation.output });
+      if (violations.length === 0) {
+        return;
+      }
+
+      // Shrink to the smallest input that still breaks one of the same invariants
+      const kinds = new Set(violations.map(violation => violation.kind));
+      const shrunk = await shrinkInput(
+        generated.tokens,
+        async candidate => checkInvariants(candidate, await observe(translator, joinTokens(candidate)))
+          .some(violation => kinds.has(violation.kind)),
+        shrinkAttempts,
+      );
+
+      const candidate = toCandidateTestCase(shrunk.tokens, violations, firstCandidateNumber + index, label);
+      test.info().annotations.push({ type: 'fuzz-shrunk', description: `"${candidate.input}" after ${shrunk.attempts} attempt(s)` });
+      await test.info().attach('fuzz-candidate.json', { body: JSON.stringify(candidate, null, 2), contentType: 'application/json' });
+
+      // One file per failure (an array, so the data loader can read it from tests/data/ as is)
+      fs.mkdirSync(CANDIDATES_DIR, { recursive: true });
+      fs.writeFileSync(path.join(CANDIDATES_DIR, `${candidate.id}.json`), JSON.stringify([candidate], null, 2), 'utf8');
+
+      expect(violations, violations.map(violation => `${violation.kind}: ${violation.message}`).join('\n')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { lintAllTestData, formatLintReport } from './utils/testDataLinter';
+
+/**
+ * Pre-test guard: refuses to start the run while the test data has lint issues.
+ * Set SKIP_DATA_LINT=1 to run anyway.
+ */
+export default async function globalSetup() {
+  if (process.env.SKIP_DATA_LINT) {
+    return;
+  }
+
+  const issues = lintAllTestData();
+  if (issues.length > 0) {
+    throw new Error(`${formatLintReport(issues)}\n\nFix the test data (npm run lint:data) or set SKIP_DATA_LINT=1.`);
+  }
+}
@@ -0,0 +1,45 @@
+import { test, expect } from './fixtures';
+import { loadTestCases } from './utils/dataLoader';
+import { deriveMetamorphicCases, checkRelation } from './utils/metamorphic';
+import { formatDiffHtml, formatDiffText } from './utils/graphemeDiff';
+
+/**
+ * Metamorphic suite: follow-up inputs derived from the TestCase inputs must
+ * produce outputs related to the source outputs (see utils/metamorphic.ts).
+ *
+ * METAMORPHIC_LIMIT: number of source cases per relation (default 5)
+ */
+
+const limit = Number(process.env.METAMORPHIC_LIMIT ?? 5);
+const metamorphicCases = deriveMetamorphicCases(loadTestCases(), limit);
+
+test.describe('Metamorphic Tests', () => {
+  for (const metamorphicCase of metamorphicCases) {
+    const { relation, sources, followUp } = metamorphicCase;
+
+    test(`Metamorphic: ${relation.name} - ${sources.map(source => source.id).join(' + ')}`, async ({ translator }) => {
+      test.info().annotations.push({ type: 'metamorphic', description: relation.description });
+
+      // Source outputs first, then the follow-up, all on the same page
+      const sourceOutputs: string[] = [];
+      for (const source of sources) {
+        sourceOutputs.push((await translator.translate(source.input)).output);
+      }
+      const followUpOutput = (await translator.translate(followUp)).output;
+
+      const result = checkRelation(relation, sourceOutputs, followUpOutput);
+      if (!result.passed) {
+        await test.info().attach('grapheme-diff.html', {
+          body: formatDiffHtml(result.expected, result.actual),
+          contentType: 'text/html',
+        });
+        await test.info().attach('grapheme-diff.txt', {
+          body: formatDiffText(result.expected, result.actual),
+          contentType: 'text/plain',
+        });
+      }
+
+      expect(result.actual, `${relation.description} for follow-up input "${followUp}"`).toBe(result.expected);
+    });
+  }
+});
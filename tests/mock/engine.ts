@@ -0,0 +1,64 @@
+import { transliterate } from '../utils/transliterator';
+
+/**
+ * Translation engine behind the local mock translator.
+ * Deliberately independent of the test data, so the suites still check something
+ * on the mock: English words and place names from a small vocabulary are kept in
+ * Latin script, the way the real site leaves them, and every other run of Latin
+ * letters goes through the reference transliterator. Digits, symbols and
+ * punctuation pass through unchanged.
+ * Input is translated line by line, so line breaks survive into the output.
+ */
+
+// English words and names kept as typed (matched case-insensitively)
+const ENGLISH_VOCABULARY = new Set([
+  'bus',
+  'traffic',
+  'late',
+  'beach',
+  'report',
+  'sir',
+  'urgent',
+  'office',
+  'meeting',
+  'phone',
+  'email',
+  'file',
+  'please',
+  'send',
+  'me',
+  'the',
+  'ok',
+  'rs',
+  'colombo',
+  'kandy',
+  'galle',
+]);
+
+/**
+ * Collapses whitespace the same way the spec normalizes output
+ */
+function normalizeInput(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function translateLine(line: string): string {
+  const normalized = normalizeInput(line);
+  if (!normalized) {
+    return '';
+  }
+
+  return normalized.replace(/[A-Za-z]+/g, word =>
+    ENGLISH_VOCABULARY.has(word.toLowerCase()) ? word : transliterate(word));
+}
+
+/**
+ * Translates Singlish input the way the mock page displays it
+ */
+export function mockTranslate(input: string): string {
+  if (!input.trim()) {
+    return '';
+  }
+
+  return input.split(/\r?\n/).map(translateLine).join('\n');
+}
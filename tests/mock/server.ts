@@ -0,0 +1,84 @@
+import http from 'http';
+import { mockTranslate } from './engine';
+import { MOCK_TRANSLATOR_PORT } from '../utils/target';
+
+/**
+ * Local stand-in for swifttranslator.com used when TRANSLATOR_TARGET=mock.
+ * Serves a single page (Singlish textarea, live Sinhala output, Clear and Copy buttons)
+ * and a small translate endpoint the page calls on every input event.
+ */
+
+const page = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Swift Translator (mock)</title>
+  <style>
+    body { font-family: sans-serif; max-width: 720px; margin: 2rem auto; }
+    textarea, #output { width: 100%; min-height: 6rem; box-sizing: border-box; padding: 0.5rem; }
+    #output { border: 1px solid #ccc; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>Swift Translator</h1>
+  <label for="input">Singlish</label>
+  <textarea id="input" placeholder="Input Your Singlish Text Here."></textarea>
+  <h2>Sinhala</h2>
+  <div id="output" class="output" aria-live="polite"></div>
+  <button id="clear" type="button">Clear</button>
+  <button id="copy" type="button">Copy</button>
+  <script>
+    const input = document.getElementById('input');
+    const output = document.getElementById('output');
+    let latest = 0;
+
+    async function translate() {
+      const request = ++latest;
+      const response = await fetch('/api/translate', { method: 'POST', body: input.value });
+      const text = await response.text();
+      // Ignore responses that arrive after a newer keystroke
+      if (request === latest) {
+        output.textContent = text;
+      }
+    }
+
+    input.addEventListener('input', translate);
+    document.getElementById('clear').addEventListener('click', () => {
+      latest++;
+      input.value = '';
+      output.textContent = '';
+    });
+    document.getElementById('copy').addEventListener('click', () => {
+      navigator.clipboard.writeText(output.textContent || '');
+    });
+  </script>
+</body>
+</html>`;
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && (req.url === '/' || req.url === '/index.html')) {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(page);
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/api/translate') {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(mockTranslate(body));
+    });
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end('Not found');
+});
+
+server.listen(MOCK_TRANSLATOR_PORT, '127.0.0.1', () => {
+  console.log(`Mock translator listening on http://127.0.0.1:${MOCK_TRANSLATOR_PORT}`);
+});
@@ -0,0 +1,338 @@
+import { expect, Locator, Page } from '@playwright/test';
+import {
+  normalizeText,
+  findInputTextarea,
+  resolveOutputContainer,
+  extractTranslationText,
+  OutputLocatorError,
+  OutputResolution,
+  ExtractionOptions,
+  waitForOutputUpdate,
+  waitForPageToSettle,
+  inputRegion,
+} from './translatorDom';
+import { waitForStableOutput, readOutputText } from '../utils/stableOutput';
+import { startLatencyProbe, markInputComplete, readLatency } from '../utils/latency';
+
+/**
+ * Page object for the translator (live site or local mock).
+ * Wraps the locator discovery, translate-button handling and output extraction
+ * so suites only deal with inputs and outputs.
+ */
+
+export interface TranslateOptions {
+  // Wait for non-empty Sinhala output (default); when false only wait for the output to settle
+  requireOutput?: boolean;
+}
+
+export interface TranslationResult {
+  input: string;
+  // Normalized translation text read from the output element
+  output: string;
+  // The same text with its spaces and line breaks intact
+  rawOutput: string;
+  // Last keystroke → stable output, null when no output change was observed
+  latencyMs: number | null;
+}
+
+export interface BrowserProfile {
+  browserName: 'chromium' | 'firefox' | 'webkit';
+  // Mobile emulation (touch, small viewport): buttons and the input are tapped instead of clicked
+  isMobile: boolean;
+}
+
+export interface ClearResult {
+  // Normalized output text left after clearing
+  output: string;
+  // Diagnostics when the output did not change after clearing
+  error?: string;
+}
+
+const TRANSLATE_BUTTON = 'button:has-text("Translate"), button:has-text("🔁"), [aria-label*="translate" i]';
+const CLEAR_BUTTON = 'button:has-text("Clear"), button:has-text("🗑️"), [aria-label*="clear" i]';
+const COPY_BUTTON = 'button:has-text("Copy"), button:has-text("📋"), [aria-label*="copy" i], [title*="copy" i]';
+
+export class SwiftTranslatorPage {
+  private outputLocator: Locator | null = null;
+  // How the output element was found each time it was located (selector telemetry)
+  readonly outputResolutions: OutputResolution[] = [];
+
+  constructor(
+    readonly page: Page,
+    readonly browser: BrowserProfile = { browserName: 'chromium', isMobile: false },
+  ) {}
+
+  /**
+   * Opens the translator (baseURL: live site or local mock, see TRANSLATOR_TARGET)
+   */
+  async open() {
+    await this.page.goto('/');
+
+    // Wait for page to load
+    await this.page.waitForLoadState('networkidle');
+
+    // Wait for at least one textarea to be visible (input field)
+    await this.page.waitForSelector('textarea', { state: 'visible', timeout: 10000 }).catch(() => {});
+  }
+
+  /**
+   * The Singlish input textarea, checked to be visible
+   */
+  async input(): Promise<Locator> {
+    const inputLocator = await findInputTextarea(this.page);
+    await expect(inputLocator).toBeVisible({ timeout: 10000 });
+    return inputLocator;
+  }
+
+  /**
+   * Focuses the input the way a user would: a tap on touch devices, a click elsewhere
+   */
+  async focusInput(): Promise<Locator> {
+    const inputLocator = await this.input();
+    await this.press(inputLocator);
+    return inputLocator;
+  }
+
+  /**
+   * The output element; located on first use and re-located by translate()
+   */
+  async output(): Promise<Locator> {
+    if (!this.outputLocator) {
+      try {
+        this.outputLocator = await this.resolveOutput();
+      } catch (e) {
+        if (e instanceof OutputLocatorError) {
+          throw e;
+        }
+        // If output not found initially, it might appear after typing
+        const inputLocator = await this.input();
+        const region = inputRegion(inputLocator);
+        const regionTextBefore = await readOutputText(region);
+        await inputLocator.fill('test');
+        await waitForPageToSettle(region, regionTextBefore);
+        this.outputLocator = await this.resolveOutput();
+        await inputLocator.clear();
+      }
+    }
+    return this.outputLocator;
+  }
+
+  /**
+   * Enters the input, waits for the translation to settle and reads it
+   */
+  async translate(input: string, options: TranslateOptions = {}): Promise<TranslationResult> {
+    const { requireOutput = true } = options;
+    const inputLocator = await this.input();
+
+    // Clear input first and let the output settle
+    await inputLocator.clear();
+    const outputBefore = await this.output();
+    await waitForPageToSettle(outputBefore);
+    const outputTextBefore = await readOutputText(outputBefore);
+
+    // Fill input (output appears dynamically after this); latency is measured on the current output element
+    await startLatencyProbe(outputBefore);
+    await inputLocator.fill(input);
+    await markInputComplete(this.page);
+
+    // Wait for the translation to appear and stop changing, then find the output element.
+    // Without requireOutput an empty or unchanged output is a valid result, so a missing change is not an error
+    if (requireOutput) {
+      await waitForPageToSettle(outputBefore, outputTextBefore);
+    } else {
+      await waitForPageToSettle(outputBefore, outputTextBefore, 5000).catch(() => {});
+    }
+    this.outputLocator = await this.locateOutputAfterTyping();
+
+    await this.clickTranslateIfPresent();
+
+    if (requireOutput) {
+      await waitForOutputUpdate(this.page, this.outputLocator);
+    } else {
+      await waitForStableOutput(this.outputLocator);
+    }
+
+    return {
+      input,
+      output: await this.readOutput(),
+      rawOutput: await this.readOutput({ preserveWhitespace: true }),
+      latencyMs: await readLatency(this.page),
+    };
+  }
+
+  /**
+   * Waits until the output holds Sinhala text that has stopped changing
+   */
+  async waitForOutput() {
+    await waitForOutputUpdate(this.page, await this.output());
+  }
+
+  /**
+   * Clicks the translate button when the site has one
+   */
+  async clickTranslateIfPresent() {
+    const translateButton = this.page.locator(TRANSLATE_BUTTON).first();
+    if (await translateButton.isVisible({ timeout: 1000 }).catch(() => false)) {
+      await this.press(translateButton);
+    }
+  }
+
+  /**
+   * Clears the input (and presses Clear when present), then waits for the output to update
+   */
+  async clear(): Promise<ClearResult> {
+    const outputLocator = await this.output();
+    const rawOutputBefore = await readOutputText(outputLocator);
+
+    await (await this.input()).clear();
+
+    const clearButton = this.page.locator(CLEAR_BUTTON).first();
+    if (await clearButton.isVisible().catch(() => false)) {
+      await this.press(clearButton);
+    }
+
+    // Only wait for a change when there was output to clear
+    const result: ClearResult = { output: '' };
+    await waitForStableOutput(outputLocator, {
+      baseline: rawOutputBefore.trim() ? rawOutputBefore : undefined,
+      timeout: 5000,
+    }).catch(e => {
+      result.error = (e as Error).message;
+    });
+
+    result.output = await this.readOutput();
+    return result;
+  }
+
+  /**
+   * Reads the translation text (UI labels and reference tables stripped, normalized
+   * unless whitespace is preserved)
+   */
+  async readOutput(options: ExtractionOptions = {}): Promise<string> {
+    return extractTranslationText(this.page, await this.output(), options);
+  }
+
+  /**
+   * Whether the site shows a copy button
+   */
+  async hasCopyButton(): Promise<boolean> {
+    return this.page.locator(COPY_BUTTON).first().isVisible({ timeout: 1000 }).catch(() => false);
+  }
+
+  /**
+   * Presses the copy button and returns the clipboard text
+   */
+  async copyOutput(): Promise<string> {
+    const copyButton = this.page.locator(COPY_BUTTON).first();
+    if (!(await this.hasCopyButton())) {
+      throw new Error('Could not find a copy button');
+    }
+
+    if (this.browser.browserName === 'chromium') {
+      // Only Chromium lets tests grant clipboard access and read the real clipboard
+      await this.page.context().grantPermissions(['clipboard-read', 'clipboard-write']);
+      await this.press(copyButton);
+      return normalizeText(await this.page.evaluate(() => navigator.clipboard.readText()));
+    }
+
+    // Firefox/WebKit: capture what the page writes to the clipboard instead of reading it back
+    await this.page.evaluate(() => {
+      const win = window as Window & { __copiedText?: string };
+      win.__copiedText = undefined;
+      document.addEventListener('copy', () => {
+        win.__copiedText = window.getSelection()?.toString() ?? '';
+      }, { once: true });
+      if (navigator.clipboard) {
+        const writeText = navigator.clipboard.writeText.bind(navigator.clipboard);
+        navigator.clipboard.writeText = text => {
+          win.__copiedText = text;
+          return writeText(text).catch(() => undefined);
+        };
+      }
+    });
+    await this.press(copyButton);
+    // An empty copy is still a copy, so wait for any value rather than a truthy one
+    await this.page.waitForFunction(
+      () => (window as Window & { __copiedText?: string }).__copiedText !== undefined,
+      undefined,
+      { timeout: 5000 },
+    );
+    const copied = await this.page.evaluate(() => (window as Window & { __copiedText?: string }).__copiedText ?? '');
+
+    return normalizeText(copied);
+  }
+
+  /**
+   * Clicks, or taps under mobile emulation so touch handlers run
+   */
+  private async press(locator: Locator) {
+    if (this.browser.isMobile) {
+      await locator.tap();
+    } else {
+      await locator.click();
+    }
+  }
+
+  /**
+   * Locates the output element and records which strategy found it
+   */
+  private async resolveOutput(): Promise<Locator> {
+    const resolution = await resolveOutputContainer(this.page, await this.input());
+    this.outputResolutions.push(resolution);
+    return resolution.locator;
+  }
+
+  /**
+   * resolveOutputContainer with a DOM scan for Sinhala text as fallback
+   */
+  private async locateOutputAfterTyping(): Promise<Locator> {
+    let outputLocator: Locator | null = null;
+
+    // Try to find output element that contains Sinhala text
+    try {
+      outputLocator = await this.resolveOutput();
+    } catch (e) {
+      // The element found is the input or the reference table: fail loudly rather than read the wrong text
+      if (e instanceof OutputLocatorError) {
+        throw e;
+      }
+      // Continue to fallback
+    }
+
+    // If not found, search for element with Sinhala characters directly
+    if (!outputLocator) {
+      const elementInfo = await this.page.evaluate(() => {
+        const allElements = Array.from(document.querySelectorAll('div, span, p, pre, code, [contenteditable]'));
+        for (const el of allElements) {
+          const text = el.textContent || '';
+          if (text.match(/[\u0D80-\u0DFF]/) && text.length < 5000) {
+            return {
+              tag: el.tagName.toLowerCase(),
+              id: el.id || '',
+              className: el.className?.toString().split(' ')[0] || '',
+            };
+          }
+        }
+        return null;
+      }).catch(() => null);
+
+      if (elementInfo?.id) {
+        outputLocator = this.page.locator(`#${elementInfo.id}`);
+      } else if (elementInfo?.className) {
+        outputLocator = this.page.locator(`${elementInfo.tag}.${elementInfo.className}`).first();
+      } else if (elementInfo) {
+        outputLocator = this.page.locator(`${elementInfo.tag}`).filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
+      } else {
+        // Last resort: use filter to find any element with Sinhala
+        outputLocator = this.page.locator('div, span, p').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
+      }
+    }
+
+    // Ensure output exists (don't check visibility - element might exist but not be "visible")
+    if (await outputLocator.count() === 0) {
+      throw new Error('Output element not found after typing. Translation may not have appeared.');
+    }
+
+    return outputLocator;
+  }
+}
@@ -0,0 +1,519 @@
+import { expect, Locator, Page } from '@playwright/test';
+import { waitForStableOutput } from '../utils/stableOutput';
+import { readCachedSelector, writeCachedSelector, forgetCachedSelector } from '../utils/selectorCache';
+
+/**
+ * DOM helpers for locating the translator's input and output and reading the
+ * translation. Shared by SwiftTranslatorPage and any suite that needs raw access.
+ */
+
+/**
+ * Normalizes text by trimming and collapsing multiple spaces
+ */
+export function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Keeps spaces and line breaks; only unifies line endings and non-breaking
+ * spaces and drops blank lines around the text
+ */
+export function normalizeLineEndings(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .replace(/^(?:[ \t]*\n)+|(?:\n[ \t]*)+$/g, '');
+}
+
+export interface ExtractionOptions {
+  // Return the output with its spaces and line breaks intact instead of collapsed (for line-structure checks)
+  preserveWhitespace?: boolean;
+}
+
+/**
+ * Finds the input textarea using multiple selector strategies
+ */
+export async function findInputTextarea(page: Page) {
+  // Try multiple selector strategies in order of preference
+  const selectors = [
+    'textarea[id*="input"]',
+    'textarea[data-testid*="input"]',
+    'textarea[placeholder*="input" i]',
+    'textarea[placeholder*="singlish" i]',
+    'textarea[placeholder*="enter" i]',
+    'textarea[aria-label*="input" i]',
+    'textarea[aria-label*="singlish" i]',
+    'textarea:first-of-type',
+    'textarea',
+  ];
+
+  for (const selector of selectors) {
+    const element = page.locator(selector).first();
+    if (await element.count() > 0) {
+      return element;
+    }
+  }
+
+  throw new Error('Could not find input textarea element');
+}
+
+export type OutputStrategy =
+  | 'second-textarea'
+  | 'sinhala-scan'
+  | 'output-selector'
+  | 'sinhala-label'
+  | 'sinhala-filter'
+  | 'unresolved';
+
+export interface OutputResolution {
+  locator: Locator;
+  strategy: OutputStrategy;
+  // Playwright selector (or locator chain) that located the element
+  selector: string;
+  fromCache: boolean;
+  // Found by a lower-priority strategy (label proximity or content filter)
+  fallback: boolean;
+  // Candidates skipped because they were the input or the character reference table
+  rejected: string[];
+}
+
+/**
+ * Thrown when every output candidate turned out to be the input or the reference table
+ */
+export class OutputLocatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutputLocatorError';
+  }
+}
+
+interface OutputCandidate {
+  locator: Locator;
+  selector: string;
+  // Only structural selectors are worth caching; content filters depend on the current text
+  cacheable: boolean;
+}
+
+interface OutputStrategyDefinition {
+  name: Exclude<OutputStrategy, 'unresolved'>;
+  fallback: boolean;
+  find: (page: Page) => Promise<OutputCandidate | null>;
+}
+
+/**
+ * Output discovery strategies in priority order
+ * Since videos show the site works, output exists but might be in a div/span, not textarea
+ */
+const OUTPUT_STRATEGIES: OutputStrategyDefinition[] = [
+  {
+    // Strategy 1: Check for second textarea (if it exists)
+    name: 'second-textarea',
+    fallback: false,
+    find: async page => {
+      if (await page.locator('textarea').count() >= 2) {
+        return { locator: page.locator('textarea').nth(1), selector: 'textarea >> nth=1', cacheable: true };
+      }
+      return null;
+    },
+  },
+  {
+    // Strategy 2: Since only 1 textarea exists, output must be in a different element
+    // Look for elements that contain Sinhala characters (most reliable indicator)
+    name: 'sinhala-scan',
+    fallback: false,
+    find: async page => {
+      const outputElement = await page.evaluateHandle(() => {
+        // Find all possible output containers
+        const allElements = Array.from(document.querySelectorAll('div, span, p, pre, code, [contenteditable]'));
+        
+        for (const el of allElements) {
+          const text = el.textContent || '';
+          // Check if it contains Sinhala Unicode characters
+          if (text.match(/[\u0D80-\u0DFF]/)) {
+            // Make sure it's not the input or a parent container with too much text
+            if (text.length < 10000 && (el as HTMLElement).offsetParent !== null) {
+              return el;
+            }
+          }
+        }
+        return null;
+      }).catch(() => null);
+      
+      if (!outputElement || !outputElement.asElement()) {
+        return null;
+      }
+      
+      // Create a locator for this element using its attributes
+      const elementInfo = await outputElement.evaluate((el: Element) => {
+        return {
+          tag: el.tagName.toLowerCase(),
+          id: el.id || '',
+          className: el.className?.toString().split(' ')[0] || '',
+        };
+      }).catch(() => null);
+      
+      if (!elementInfo) {
+        return null;
+      }
+      if (elementInfo.id) {
+        const selector = `#${elementInfo.id}`;
+        return { locator: page.locator(selector), selector, cacheable: true };
+      }
+      if (elementInfo.className) {
+        const selector = `${elementInfo.tag}.${elementInfo.className} >> nth=0`;
+        return { locator: page.locator(selector), selector, cacheable: true };
+      }
+      // Use a more specific selector - find element with Sinhala text
+      const selector = `${elementInfo.tag}:has-text(/[\u0D80-\u0DFF]/) >> nth=0`;
+      return { locator: page.locator(selector), selector, cacheable: false };
+    },
+  },
+  {
+    // Strategy 3: Look for common output container patterns
+    name: 'output-selector',
+    fallback: false,
+    find: async page => {
+      const outputSelectors = [
+        'div[contenteditable]',
+        '[contenteditable="true"]',
+        '[contenteditable="false"]',
+        'div[id*="output" i]',
+        'div[id*="result" i]',
+        'div[id*="translation" i]',
+        'div[class*="output" i]',
+        'div[class*="result" i]',
+        'div[class*="translation" i]',
+        '[data-testid*="output" i]',
+        '[data-testid*="result" i]',
+        'pre',
+        'code',
+      ];
+      
+      for (const selector of outputSelectors) {
+        const element = page.locator(selector).first();
+        if (await element.count().catch(() => 0) > 0 && await element.isVisible({ timeout: 1000 }).catch(() => false)) {
+          return { locator: element, selector: `${selector} >> nth=0`, cacheable: true };
+        }
+      }
+      return null;
+    },
+  },
+  {
+    // Strategy 4: Find element near "Sinhala" label
+    name: 'sinhala-label',
+    fallback: true,
+    find: async page => {
+      const sinhalaLabel = page.locator('text=/Sinhala/i').first();
+      if (await sinhalaLabel.isVisible({ timeout: 2000 }).catch(() => false)) {
+        // Find the next element after Sinhala label that might contain output
+        const outputInParent = sinhalaLabel.locator('..').locator('div, span, p, pre').first();
+        if (await outputInParent.isVisible({ timeout: 1000 }).catch(() => false)) {
+          return {
+            locator: outputInParent,
+            selector: 'text=/Sinhala/i >> nth=0 >> xpath=.. >> div, span, p, pre >> nth=0',
+            cacheable: false,
+          };
+        }
+      }
+      return null;
+    },
+  },
+  {
+    // Strategy 5: Last resort - a generic locator that filters for Sinhala text
+    name: 'sinhala-filter',
+    fallback: true,
+    find: async page => {
+      const sinhalaElement = page.locator('div, span, p, pre').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
+      if (await sinhalaElement.count() > 0) {
+        return { locator: sinhalaElement, selector: 'div, span, p, pre (filtered for Sinhala text)', cacheable: false };
+      }
+      return null;
+    },
+  },
+];
+
+/**
+ * Why the element cannot be the output (it is or wraps the input, or holds the
+ * character reference table), or null when it looks like a real output element
+ */
+export async function checkOutputCandidate(locator: Locator, inputLocator?: Locator): Promise<string | null> {
+  if (await locator.count().catch(() => 0) === 0) {
+    return null;
+  }
+
+  const inputHandle = inputLocator ? await inputLocator.elementHandle({ timeout: 1000 }).catch(() => null) : null;
+  return locator.first().evaluate((el, input) => {
+    if (input && el === input) {
+      return 'element is the input textarea';
+    }
+    if (input && el.contains(input)) {
+      return 'element contains the input textarea';
+    }
+    // The reference table lists the vowels in order ("අආඇඈඉඊඋඌ...") after a "( ... පිළිවෙළ)" heading
+    const text = el.textContent || '';
+    if (/[\u0D85-\u0D96]{8,}/.test(text) || /\([^)]*පිළිවෙළ[^)]*\)/.test(text)) {
+      return 'element contains the character reference table';
+    }
+    return null;
+  }, inputHandle);
+}
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Finds the output container: the cached selector first, then the strategies in
+ * priority order. Candidates that are the input or the reference table are skipped
+ * (and a bad cached selector is forgotten); if every candidate was rejected an
+ * OutputLocatorError is thrown.
+ */
+export async function resolveOutputContainer(page: Page, inputLocator?: Locator): Promise<OutputResolution> {
+  // Wait for page to be ready
+  await page.waitForLoadState('domcontentloaded');
+  
+  const input = inputLocator ?? await findInputTextarea(page).catch(() => undefined);
+  const origin = originOf(page.url());
+  const rejected: string[] = [];
+  
+  const cached = readCachedSelector(origin);
+  if (cached) {
+    const locator = page.locator(cached.selector);
+    if (await locator.count().catch(() => 0) > 0) {
+      const problem = await checkOutputCandidate(locator, input);
+      if (!problem) {
+        return { locator, strategy: cached.strategy as OutputStrategy, selector: cached.selector, fromCache: true, fallback: false, rejected };
+      }
+      rejected.push(`cached "${cached.selector}": ${problem}`);
+      forgetCachedSelector(origin);
+    }
+  }
+  
+  for (const strategy of OUTPUT_STRATEGIES) {
+    const candidate = await strategy.find(page).catch(() => null);
+    if (!candidate) {
+      continue;
+    }
+    
+    const problem = await checkOutputCandidate(candidate.locator, input);
+    if (problem) {
+      rejected.push(`${strategy.name} "${candidate.selector}": ${problem}`);
+      continue;
+    }
+    
+    if (candidate.cacheable) {
+      writeCachedSelector(origin, strategy.name, candidate.selector);
+    }
+    const resolution: OutputResolution = {
+      locator: candidate.locator,
+      strategy: strategy.name,
+      selector: candidate.selector,
+      fromCache: false,
+      fallback: strategy.fallback,
+      rejected,
+    };
+    return resolution;
+  }
+  
+  if (rejected.length > 0) {
+    throw new OutputLocatorError(
+      `No usable output element: every candidate was the input or the character reference table\n- ${rejected.join('\n- ')}`,
+    );
+  }
+  
+  // If we still can't find it, the output might not have appeared yet
+  // Return a generic div locator that we'll check later
+  return {
+    locator: page.locator('div').filter({ hasText: /[\u0D80-\u0DFF]/ }).first(),
+    strategy: 'unresolved',
+    selector: 'div (filtered for Sinhala text)',
+    fromCache: false,
+    fallback: true,
+    rejected,
+  };
+}
+
+/**
+ * One-line telemetry for the report, e.g. `sinhala-scan → #output (cached)`
+ */
+export function describeOutputResolution(resolution: OutputResolution): string {
+  const parts = [`${resolution.strategy} → ${resolution.selector}`];
+  if (resolution.fromCache) {
+    parts.push('(cached)');
+  }
+  if (resolution.fallback) {
+    parts.push('(lower-priority fallback: the site layout may have changed)');
+  }
+  if (resolution.rejected.length > 0) {
+    parts.push(`after rejecting ${resolution.rejected.join('; ')}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Finds the output container using multiple selector strategies (see resolveOutputContainer)
+ */
+export async function findOutputContainer(page: Page, inputLocator?: Locator): Promise<Locator> {
+  return (await resolveOutputContainer(page, inputLocator)).locator;
+}
+
+/**
+ * Removes the character reference tables the site renders around the output
+ */
+function stripReferenceTables(text: string): string {
+  // Remove patterns like "( . . - පිළිවෙළ). . අආඇඈඉඊඋඌ..." (character reference tables)
+  text = text.replace(/\([^)]*පිළිවෙළ[^)]*\)[^]*?අආඇඈඉඊඋඌ[^]*?/g, '');
+  
+  // Remove very long sequences of single Sinhala characters (character reference tables)
+  text = text.replace(/[අ-ෆ]{50,}/g, '');
+  
+  // Remove patterns that start with "( . . -" followed by Sinhala characters
+  return text.replace(/\([^)]*\.\s*\.\s*-[^)]*\)[^]*?/g, '');
+}
+
+/**
+ * Extracts only the Sinhala translation text from the output element
+ * Filters out UI elements, labels, and other non-translation content
+ * With preserveWhitespace the rendered text (innerText) is returned with its line
+ * structure; the best-segment heuristic below is skipped since it splits on line breaks
+ */
+export async function extractTranslationText(
+  page: Page,
+  outputLocator: ReturnType<typeof page.locator>,
+  options: ExtractionOptions = {},
+): Promise<string> {
+  // For textarea elements, use inputValue() to get the actual value
+  const tagName = await outputLocator.evaluate(el => el.tagName.toLowerCase()).catch(() => '');
+  
+  let text = '';
+  if (tagName === 'textarea' || tagName === 'input') {
+    // Get the value directly from textarea/input
+    text = await outputLocator.inputValue().catch(() => '');
+  } else if (options.preserveWhitespace) {
+    // innerText keeps the line breaks the page renders (<br>, blocks, pre-wrap)
+    text = stripReferenceTables(await outputLocator.innerText().catch(() => ''));
+  } else {
+    // For other elements, try to find the most specific child element with translation
+    // First, try to find a direct child that contains the translation (not nested UI elements)
+    const directText = await outputLocator.evaluate((el) => {
+      // Try to find the actual text node or a direct child with translation
+      const children = Array.from(el.children);
+      for (const child of children) {
+        const childText = child.textContent || '';
+        // If child has Sinhala and is not too long (likely the translation)
+        if (childText.match(/[\u0D80-\u0DFF]/) && childText.length < 1000) {
+          return childText;
+        }
+      }
+      // If no direct child, get the element's own text (excluding children)
+      return el.childNodes.length > 0 ? 
+        Array.from(el.childNodes)
+          .filter(node => node.nodeType === 3) // Text nodes only
+          .map(node => node.textContent)
+          .join('') : el.textContent || '';
+    }).catch(() => '');
+    
+    if (directText && directText.length > 0) {
+      text = directText;
+    } else {
+      // Fallback: get all text content
+      text = await outputLocator.textContent() || '';
+    }
+    
+    // Filter out UI elements and character reference tables
+    text = stripReferenceTables(text);
+    
+    // If the text still contains UI elements, try to extract just the translation
+    if (text.length > 500 || text.includes('Singlish') || text.includes('Translate') || text.includes('Clear')) {
+      // Split by common separators and find the segment with the most meaningful content
+      const segments = text.split(/\s{3,}|\n{2,}/); // Split by multiple spaces or newlines
+      let bestSegment = '';
+      let maxScore = 0;
+      
+      for (const segment of segments) {
+        // Score based on: has Sinhala, has English/numbers (mixed content), reasonable length
+        const hasSinhala = segment.match(/[\u0D80-\u0DFF]/);
+        const hasEnglish = segment.match(/[a-zA-Z0-9]/);
+        const length = segment.trim().length;
+        
+        if (hasSinhala && length > 0 && length < 500) {
+          let score = length;
+          if (hasEnglish) score += 50; // Bonus for mixed content (likely translation)
+          if (length > 10 && length < 200) score += 30; // Bonus for reasonable length
+          
+          if (score > maxScore) {
+            maxScore = score;
+            bestSegment = segment.trim();
+          }
+        }
+      }
+      
+      if (bestSegment) {
+        text = bestSegment;
+      } else {
+        // Fallback: extract meaningful sentences (mix of Sinhala, English, numbers, and punctuation)
+        const meaningfulText = text.match(/[^\u0D80-\u0DFF]*[\u0D80-\u0DFF]+[^\u0D80-\u0DFF]*[\u0D80-\u0DFF]+/g);
+        if (meaningfulText && meaningfulText.length > 0) {
+          // Get the longest meaningful segment (likely the translation)
+          text = meaningfulText.sort((a, b) => b.length - a.length)[0];
+        } else {
+          // Fallback: extract only Sinhala Unicode characters, English, numbers, and spaces/punctuation
+          const sinhalaOnly = text.match(/[\u0D80-\u0DFFa-zA-Z0-9\s.,!?;:()"'-]+/g);
+          if (sinhalaOnly) {
+            text = sinhalaOnly.join(' ').trim();
+          }
+        }
+      }
+    }
+  }
+  
+  return options.preserveWhitespace ? normalizeLineEndings(text) : normalizeText(text);
+}
+
+/**
+ * Waits for output to update (becomes non-empty)
+ */
+export async function waitForOutputUpdate(page: Page, outputLocator: ReturnType<typeof page.locator>, timeout = 10000) {
+  // Wait for the output to have some content
+  // Check both textContent and inputValue for textareas
+  const tagName = await outputLocator.evaluate(el => el.tagName.toLowerCase()).catch(() => '');
+  
+  if (tagName === 'textarea' || tagName === 'input') {
+    // For textarea/input, wait for value to be non-empty
+    await expect(async () => {
+      const value = await outputLocator.inputValue();
+      expect(value.trim().length).toBeGreaterThan(0);
+    }).toPass({ timeout });
+  } else {
+    // For other elements (div, span, etc.), wait for text content with Sinhala characters
+    await expect(async () => {
+      const text = await outputLocator.textContent();
+      const hasSinhala = text && text.match(/[\u0D80-\u0DFF]/);
+      expect(hasSinhala).toBeTruthy();
+    }).toPass({ timeout });
+  }
+  
+  // Wait until the output has stopped changing
+  await waitForStableOutput(outputLocator, { timeout });
+}
+
+/**
+ * The input's form, or its parent element when it is not in a form; watched
+ * instead of the output while the output element is not known yet
+ */
+export function inputRegion(inputLocator: Locator): Locator {
+  return inputLocator.locator('xpath=ancestor::form[1] | parent::*').first();
+}
+
+/**
+ * Waits for the translator to react to new input and settle (replaces fixed sleeps)
+ * Only `region` is watched (the output, or the input's region before the output is
+ * known), so ads or animations elsewhere on the page cannot keep it from settling
+ */
+export async function waitForPageToSettle(region: Locator, baseline?: string, timeout?: number) {
+  await waitForStableOutput(region, { baseline, timeout });
+}
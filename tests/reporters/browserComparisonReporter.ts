@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, FullConfig, TestCase as PlaywrightTestCase, TestResult } from '@playwright/test/reporter';
+import { TEST_CASE_ANNOTATION, ACTUAL_OUTPUT_ANNOTATION, readAnnotation } from '../utils/resultAnnotations';
+import { formatDiffText } from '../utils/graphemeDiff';
+
+/**
+ * Compares the actual output of every TestCase across browser projects
+ * (see playwright.config.ts) and lists the cases where an engine or mobile
+ * emulation produced a different output or a different result.
+ * Writes browser-comparison.json and browser-comparison.md.
+ *
+ * Options (playwright.config.ts):
+ * - outputDir: directory for the files (default "results")
+ */
+
+export interface BrowserComparisonOptions {
+  outputDir?: string;
+}
+
+interface ProjectOutcome {
+  output: string;
+  status: TestResult['status'];
+}
+
+interface CaseComparison {
+  id: string;
+  // Outcome per project name
+  outcomes: Record<string, ProjectOutcome>;
+  outputsDiffer: boolean;
+  statusesDiffer: boolean;
+}
+
+function escapeCell(text: string): string {
+  return (text || '(empty)').replace(/\|/g, '\\|');
+}
+
+class BrowserComparisonReporter implements Reporter {
+  private readonly outputDir: string;
+  private projects: string[] = [];
+  // TestCase id → project → outcome; a retry replaces the earlier attempt
+  private readonly outcomes = new Map<string, Map<string, ProjectOutcome>>();
+
+  constructor(options: BrowserComparisonOptions = {}) {
+    this.outputDir = path.resolve(options.outputDir ?? 'results');
+  }
+
+  onBegin(config: FullConfig) {
+    this.projects = config.projects.map(project => project.name);
+  }
+
+  onTestEnd(test: PlaywrightTestCase, result: TestResult) {
+    const id = readAnnotation(test.annotations, TEST_CASE_ANNOTATION);
+    const output = readAnnotation(test.annotations, ACTUAL_OUTPUT_ANNOTATION);
+    const project = test.parent.project()?.name;
+    if (!id || output === undefined || !project) {
+      return;
+    }
+
+    if (!this.outcomes.has(id)) {
+      this.outcomes.set(id, new Map());
+    }
+    this.outcomes.get(id)!.set(project, { output, status: result.status });
+  }
+
+  onEnd() {
+    const comparisons: CaseComparison[] = Array.from(this.outcomes.entries())
+      .filter(([, byProject]) => byProject.size > 1)
+      .map(([id, byProject]) => {
+        const outcomes = Array.from(byProject.values());
+        return {
+          id,
+          outcomes: Object.fromEntries(byProject),
+          outputsDiffer: new Set(outcomes.map(outcome => outcome.output)).size > 1,
+          statusesDiffer: new Set(outcomes.map(outcome => outcome.status)).size > 1,
+        };
+      });
+    // Nothing to compare when only one project ran
+    if (comparisons.length === 0) {
+      return;
+    }
+
+    const differences = comparisons.filter(comparison => comparison.outputsDiffer || comparison.statusesDiffer);
+    const projects = this.projects.filter(project => comparisons.some(comparison => comparison.outcomes[project]));
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outputDir, 'browser-comparison.json'),
+      JSON.stringify({ projects, differences: differences.length, comparisons }, null, 2),
+      'utf8',
+    );
+    fs.writeFileSync(path.join(this.outputDir, 'browser-comparison.md'), this.toMarkdown(projects, comparisons, differences), 'utf8');
+
+    console.log(`\nCross-browser comparison: ${differences.length} of ${comparisons.length} case(s) differ between ${projects.join(', ')}`);
+    for (const comparison of differences) {
+      const outcomes = projects
+        .filter(project => comparison.outcomes[project])
+        .map(project => `${project}: "${comparison.outcomes[project].output}" (${comparison.outcomes[project].status})`);
+      console.log(`  ${comparison.id}  ${outcomes.join('  ')}`);
+    }
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  private toMarkdown(projects: string[], comparisons: CaseComparison[], differences: CaseComparison[]): string {
+    const lines = [
+      '# Cross-browser output comparison',
+      '',
+      `${differences.length} of ${comparisons.length} case(s) differ between ${projects.join(', ')}.`,
+      '',
+      `| Case | ${projects.join(' | ')} |`,
+      `|------|${projects.map(() => '---').join('|')}|`,
+    ];
+
+    for (const comparison of comparisons) {
+      const mark = comparison.outputsDiffer || comparison.statusesDiffer ? ' ⚠' : '';
+      const cells = projects.map(project => {
+        const outcome = comparison.outcomes[project];
+        return outcome ? `${escapeCell(outcome.output)} (${outcome.status})` : '';
+      });
+      lines.push(`| ${comparison.id}${mark} | ${cells.join(' | ')} |`);
+    }
+
+    // Grapheme diff of each differing output against the first project's output
+    for (const comparison of differences.filter(difference => difference.outputsDiffer)) {
+      const [reference, ...others] = projects.filter(project => comparison.outcomes[project]);
+      const expected = comparison.outcomes[reference].output;
+      lines.push('', `## ${comparison.id}`, '');
+      for (const project of others) {
+        const actual = comparison.outcomes[project].output;
+        if (actual !== expected) {
+          lines.push(`${reference} vs ${project}:`, '', '```', formatDiffText(expected, actual), '```', '');
+        }
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+export default BrowserComparisonReporter;
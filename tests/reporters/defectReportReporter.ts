@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase as PlaywrightTestCase, TestResult } from '@playwright/test/reporter';
+import { TestCase } from '../testData';
+import { loadTestCases } from '../utils/dataLoader';
+import { TEST_CASE_ANNOTATION, ACTUAL_OUTPUT_ANNOTATION, readAnnotation } from '../utils/resultAnnotations';
+import { readGoldenSnapshots, goldenKey } from '../utils/goldenSnapshots';
+import { DefectReport, buildDefectReport, defectFileName, formatDefectMarkdown, formatDefectIndex } from '../utils/defectReport';
+
+/**
+ * Turns every failed TestCase into a defect report (Markdown + JSON) with
+ * reproduction steps, expected vs actual output, grapheme diff, inferred
+ * severity and links to the screenshot/video/trace Playwright kept for the failure.
+ *
+ * Options (playwright.config.ts):
+ * - outputDir: directory for the reports (default "results/defects")
+ */
+
+export interface DefectReportOptions {
+  outputDir?: string;
+}
+
+// Annotations that explain why a case failed
+const NOTE_ANNOTATIONS = [
+  'match',
+  'oracle-verdict',
+  'golden-output',
+  'round-trip',
+  'sinhala-validity',
+  'stable-output',
+  'output-locator-warning',
+];
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+class DefectReportReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly testCases = new Map<string, TestCase>();
+  // Keyed by Playwright test id so a retry replaces the earlier attempt
+  private readonly failures = new Map<string, { test: PlaywrightTestCase; result: TestResult; testCase: TestCase }>();
+
+  constructor(options: DefectReportOptions = {}) {
+    this.outputDir = path.resolve(options.outputDir ?? path.join('results', 'defects'));
+
+    for (const testCase of loadTestCases()) {
+      this.testCases.set(testCase.id, testCase);
+    }
+  }
+
+  onTestEnd(test: PlaywrightTestCase, result: TestResult) {
+    const id = readAnnotation(test.annotations, TEST_CASE_ANNOTATION);
+    const testCase = id ? this.testCases.get(id) : undefined;
+    if (!testCase) {
+      return;
+    }
+
+    if (result.status === 'failed' || result.status === 'timedOut') {
+      this.failures.set(test.id, { test, result, testCase });
+    } else {
+      // A passing retry means the case is flaky, not broken
+      this.failures.delete(test.id);
+    }
+  }
+
+  onEnd() {
+    // Start from an empty directory so fixed cases do not leave stale reports behind
+    fs.rmSync(this.outputDir, { recursive: true, force: true });
+    if (this.failures.size === 0) {
+      return;
+    }
+
+    const golden = readGoldenSnapshots();
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    const reports: DefectReport[] = [];
+    for (const { test, result, testCase } of this.failures.values()) {
+      const approved = golden[goldenKey(testCase.id, test.parent.project()?.name ?? '')];
+      const report = buildDefectReport(testCase, {
+        url: test.parent.project()?.use.baseURL ?? '',
+        actual: readAnnotation(test.annotations, ACTUAL_OUTPUT_ANNOTATION) ?? '',
+        golden: approved?.input === testCase.input ? approved.output : undefined,
+        error: result.error?.message ? stripAnsi(result.error.message) : undefined,
+        notes: test.annotations
+          .filter(annotation => NOTE_ANNOTATIONS.includes(annotation.type) && annotation.description)
+          .map(annotation => `${annotation.type}: ${annotation.description}`),
+        artifacts: result.attachments
+          .filter(attachment => attachment.path)
+          .map(attachment => ({ name: attachment.name, path: path.relative(this.outputDir, attachment.path as string) })),
+        project: test.parent.project()?.name ?? '',
+        retries: result.retry,
+      });
+      reports.push(report);
+
+      const fileName = defectFileName(report);
+      fs.writeFileSync(path.join(this.outputDir, `${fileName}.md`), formatDefectMarkdown(report), 'utf8');
+      fs.writeFileSync(path.join(this.outputDir, `${fileName}.json`), JSON.stringify(report, null, 2), 'utf8');
+    }
+
+    fs.writeFileSync(path.join(this.outputDir, 'index.md'), formatDefectIndex(reports), 'utf8');
+    console.log(`${reports.length} defect report(s) written to ${path.relative(process.cwd(), this.outputDir)}`);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export default DefectReportReporter;
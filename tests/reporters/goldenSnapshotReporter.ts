@@ -0,0 +1,82 @@
+import type { Reporter, TestCase as PlaywrightTestCase, TestResult } from '@playwright/test/reporter';
+import { loadTestCases } from '../utils/dataLoader';
+import { TEST_CASE_ANNOTATION, ACTUAL_OUTPUT_ANNOTATION, readAnnotation } from '../utils/resultAnnotations';
+import {
+  GoldenStatus,
+  GOLDEN_OUTPUT_ANNOTATION,
+  goldenKey,
+  resolveGoldenSnapshotFile,
+  readGoldenSnapshots,
+  writeGoldenSnapshots,
+} from '../utils/goldenSnapshots';
+
+/**
+ * Writes new golden outputs of passing tests and accepted updates (see
+ * utils/goldenSnapshots.ts) to the snapshot file at the end of the run, so parallel
+ * workers never write it themselves. An output from a failed test is never approved
+ * implicitly.
+ * Prints the keys of changed, missing and unapproved snapshots for review.
+ */
+
+interface GoldenRecord {
+  id: string;
+  project: string;
+  status: GoldenStatus;
+  output: string;
+  passed: boolean;
+}
+
+class GoldenSnapshotReporter implements Reporter {
+  private readonly inputs = new Map<string, string>();
+  // Keyed by Playwright test id so a retry replaces the earlier attempt
+  private readonly records = new Map<string, GoldenRecord>();
+
+  constructor() {
+    for (const testCase of loadTestCases()) {
+      this.inputs.set(testCase.id, testCase.input);
+    }
+  }
+
+  onTestEnd(test: PlaywrightTestCase, result: TestResult) {
+    const id = readAnnotation(test.annotations, TEST_CASE_ANNOTATION);
+    const status = readAnnotation(test.annotations, GOLDEN_OUTPUT_ANNOTATION) as GoldenStatus | undefined;
+    const output = readAnnotation(test.annotations, ACTUAL_OUTPUT_ANNOTATION);
+    const project = test.parent.project()?.name ?? '';
+
+    if (id && status && output !== undefined) {
+      this.records.set(test.id, { id, project, status, output, passed: result.status === 'passed' });
+    }
+  }
+
+  async onEnd() {
+    const records = Array.from(this.records.values());
+    // Accepted updates are stored as requested; a first output only when its test passed
+    const stored = records.filter(record =>
+      this.inputs.has(record.id) && (record.status === 'updated' || (record.status === 'new' && record.passed)));
+
+    if (stored.length > 0) {
+      const file = resolveGoldenSnapshotFile();
+      const snapshots = readGoldenSnapshots(file);
+      const updatedAt = new Date().toISOString();
+      for (const record of stored) {
+        snapshots[goldenKey(record.id, record.project)] = { input: this.inputs.get(record.id) as string, output: record.output, updatedAt };
+      }
+      writeGoldenSnapshots(snapshots, file);
+      console.log(`\nGolden outputs written to ${file}: ${stored.map(record => `${goldenKey(record.id, record.project)} (${record.status})`).join(', ')}`);
+    }
+
+    const pending = records.filter(record =>
+      record.status === 'changed' || record.status === 'missing' || (record.status === 'new' && !record.passed));
+    if (pending.length > 0) {
+      const labels = pending.map(record => `${goldenKey(record.id, record.project)} (${record.status === 'new' ? 'new, test failed' : record.status})`);
+      console.log(`\nGolden outputs to review: ${labels.join(', ')}`);
+      console.log('Accept them with npm run test:update-snapshots');
+    }
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export default GoldenSnapshotReporter;
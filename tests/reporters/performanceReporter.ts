@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter, TestCase as PlaywrightTestCase, FullResult } from '@playwright/test/reporter';
+import { TestCase } from '../testData';
+import { loadTestCases } from '../utils/dataLoader';
+import { TEST_CASE_ANNOTATION, LATENCY_ANNOTATION, readAnnotation } from '../utils/resultAnnotations';
+import { LatencyBudgets, LatencyStats, DEFAULT_LATENCY_BUDGETS, resolveLatencyBudgets, summarizeLatencies } from '../utils/latency';
+
+/**
+ * Aggregates the per-case translation latency (last keystroke → stable output)
+ * into p50/p95 per browser project and input length type, enforces the p95 budgets
+ * for each project separately (a slow engine is neither hidden by faster ones nor
+ * left unnamed) and writes a performance summary (JSON + HTML) next to the other
+ * run results.
+ *
+ * Options (playwright.config.ts):
+ * - outputDir: directory for the summary files (default "results")
+ * - budgets: p95 budgets in ms per length type; LATENCY_BUDGETS overrides them
+ */
+
+export interface PerformanceReporterOptions {
+  outputDir?: string;
+  budgets?: Partial<LatencyBudgets>;
+}
+
+interface LatencySample {
+  id: string;
+  project: string;
+  lengthType: TestCase['lengthType'];
+  ms: number;
+}
+
+interface LengthTypeSummary extends LatencyStats {
+  project: string;
+  lengthType: TestCase['lengthType'];
+  budget: number;
+  withinBudget: boolean;
+}
+
+const LENGTH_TYPES: TestCase['lengthType'][] = ['S', 'M', 'L'];
+
+class PerformanceReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly budgets: LatencyBudgets;
+  private readonly lengthTypes = new Map<string, TestCase['lengthType']>();
+  // Keyed by Playwright test id so a retry replaces the earlier attempt
+  private readonly latencies = new Map<string, LatencySample>();
+
+  constructor(options: PerformanceReporterOptions = {}) {
+    this.outputDir = path.resolve(options.outputDir ?? 'results');
+    this.budgets = resolveLatencyBudgets({ ...DEFAULT_LATENCY_BUDGETS, ...options.budgets });
+
+    for (const testCase of loadTestCases()) {
+      this.lengthTypes.set(testCase.id, testCase.lengthType);
+    }
+  }
+
+  onTestEnd(test: PlaywrightTestCase) {
+    const id = readAnnotation(test.annotations, TEST_CASE_ANNOTATION);
+    const latency = readAnnotation(test.annotations, LATENCY_ANNOTATION);
+    const lengthType = id ? this.lengthTypes.get(id) : undefined;
+    const project = test.parent.project()?.name ?? '';
+
+    if (id && lengthType && latency !== undefined) {
+      this.latencies.set(test.id, { id, project, lengthType, ms: Number(latency) });
+    }
+  }
+
+  async onEnd(result: FullResult) {
+    if (this.latencies.size === 0) {
+      return;
+    }
+
+    const samples = Array.from(this.latencies.values());
+    const projects = Array.from(new Set(samples.map(sample => sample.project))).sort();
+    const summaries: LengthTypeSummary[] = projects.flatMap(project => LENGTH_TYPES
+      .map(lengthType => {
+        const stats = summarizeLatencies(samples
+          .filter(sample => sample.project === project && sample.lengthType === lengthType)
+          .map(sample => sample.ms));
+        return { project, lengthType, ...stats, budget: this.budgets[lengthType], withinBudget: stats.p95 <= this.budgets[lengthType] };
+      })
+      .filter(summary => summary.count > 0));
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outputDir, 'performance-summary.json'),
+      JSON.stringify({ summaries, samples }, null, 2),
+      'utf8',
+    );
+    fs.writeFileSync(path.join(this.outputDir, 'performance-summary.html'), this.toHtml(summaries, samples), 'utf8');
+
+    console.log('\nTranslation latency (last keystroke → stable output)');
+    for (const summary of summaries) {
+      const verdict = summary.withinBudget ? 'ok' : 'OVER BUDGET';
+      console.log(`  [${summary.project}] ${summary.lengthType}: n=${summary.count} p50=${summary.p50}ms p95=${summary.p95}ms max=${summary.max}ms budget=${summary.budget}ms ${verdict}`);
+    }
+
+    const overBudget = summaries.filter(summary => !summary.withinBudget);
+    if (overBudget.length > 0 && result.status === 'passed') {
+      console.log(`Latency budget exceeded for ${overBudget.map(summary => `${summary.project} ${summary.lengthType}`).join(', ')}`);
+      return { status: 'failed' as const };
+    }
+  }
+
+  private toHtml(summaries: LengthTypeSummary[], samples: LatencySample[]): string {
+    const summaryRows = summaries
+      .map(s => `<tr class="${s.withinBudget ? 'ok' : 'over'}"><td>${s.project}</td><td>${s.lengthType}</td><td>${s.count}</td><td>${s.p50}</td><td>${s.p95}</td><td>${s.max}</td><td>${s.budget}</td></tr>`)
+      .join('\n');
+    const sampleRows = [...samples]
+      .sort((a, b) => b.ms - a.ms)
+      .map(s => `<tr><td>${s.id}</td><td>${s.project}</td><td>${s.lengthType}</td><td>${s.ms}</td></tr>`)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Translation performance summary</title>
+<style>
+  body { font-family: sans-serif; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  td, th { border: 1px solid #ccc; padding: 0.25rem 0.75rem; text-align: right; }
+  .ok { background: #e6f7e6; }
+  .over { background: #f7dede; }
+</style>
+</head>
+<body>
+<h2>Latency per project and input length type (ms)</h2>
+<table>
+<tr><th>Project</th><th>Length</th><th>Cases</th><th>p50</th><th>p95</th><th>Max</th><th>p95 budget</th></tr>
+${summaryRows}
+</table>
+<h2>Slowest cases (ms)</h2>
+<table>
+<tr><th>TC ID</th><th>Project</th><th>Length</th><th>Latency</th></tr>
+${sampleRows}
+</table>
+</body>
+</html>`;
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export default PerformanceReporter;
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import type { Reporter, TestCase as PlaywrightTestCase, TestResult } from '@playwright/test/reporter';
+import { TestCase } from '../testData';
+import { loadTestCases } from '../utils/dataLoader';
+import { TEST_CASE_ANNOTATION, ACTUAL_OUTPUT_ANNOTATION, readAnnotation } from '../utils/resultAnnotations';
+
+/**
+ * Writes the assignment results table (TC ID, test case name, input length type,
+ * input, expected output, actual output, status) as CSV and XLSX at the end of the run,
+ * one row per case and browser project.
+ *
+ * Options (playwright.config.ts):
+ * - outputDir: directory for the files (default "results")
+ * - fileName: base name without extension (default "translation-results")
+ */
+
+export interface ResultsSheetOptions {
+  outputDir?: string;
+  fileName?: string;
+}
+
+interface ResultRow {
+  testCase: TestCase;
+  actual: string;
+  status: string;
+  project: string;
+}
+
+const COLUMNS = ['TC ID', 'Test case name', 'Input length type', 'Input', 'Expected output', 'Actual output', 'Status', 'Browser'];
+
+function toStatus(result: TestResult): string {
+  switch (result.status) {
+    case 'passed':
+      return 'Pass';
+    case 'skipped':
+      return 'Skipped';
+    default:
+      return 'Fail';
+  }
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+class ResultsSheetReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly fileName: string;
+  private readonly testCases = new Map<string, TestCase>();
+  // Keyed by Playwright test id so a retry replaces the earlier attempt
+  private readonly rows = new Map<string, ResultRow>();
+
+  constructor(options: ResultsSheetOptions = {}) {
+    this.outputDir = path.resolve(options.outputDir ?? 'results');
+    this.fileName = options.fileName ?? 'translation-results';
+
+    for (const testCase of loadTestCases()) {
+      this.testCases.set(testCase.id, testCase);
+    }
+  }
+
+  onTestEnd(test: PlaywrightTestCase, result: TestResult) {
+    const id = readAnnotation(test.annotations, TEST_CASE_ANNOTATION);
+    const testCase = id ? this.testCases.get(id) : undefined;
+    if (!testCase) {
+      return;
+    }
+
+    this.rows.set(test.id, {
+      testCase,
+      actual: readAnnotation(test.annotations, ACTUAL_OUTPUT_ANNOTATION) ?? '',
+      status: toStatus(result),
+      project: test.parent.project()?.name ?? '',
+    });
+  }
+
+  onEnd() {
+    if (this.rows.size === 0) {
+      return;
+    }
+
+    const order = Array.from(this.testCases.keys());
+    const table = Array.from(this.rows.values())
+      .sort((a, b) => order.indexOf(a.testCase.id) - order.indexOf(b.testCase.id) || a.project.localeCompare(b.project))
+      .map(row => [
+        row.testCase.id,
+        row.testCase.name,
+        row.testCase.lengthType,
+        row.testCase.input,
+        row.testCase.expected,
+        row.actual,
+        row.status,
+        row.project,
+      ]);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    // UTF-8 BOM so spreadsheet apps open the Sinhala text with the right encoding
+    const csv = [COLUMNS, ...table].map(line => line.map(toCsvField).join(',')).join('\r\n');
+    const csvFile = path.join(this.outputDir, `${this.fileName}.csv`);
+    fs.writeFileSync(csvFile, `\uFEFF${csv}\r\n`, 'utf8');
+
+    const sheet = XLSX.utils.aoa_to_sheet([COLUMNS, ...table]);
+    sheet['!cols'] = [{ wch: 14 }, { wch: 40 }, { wch: 8 }, { wch: 50 }, { wch: 50 }, { wch: 50 }, { wch: 8 }, { wch: 14 }];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Results');
+    const xlsxFile = path.join(this.outputDir, `${this.fileName}.xlsx`);
+    XLSX.writeFile(workbook, xlsxFile);
+
+    console.log(`Results sheet written to ${path.relative(process.cwd(), csvFile)} and ${path.relative(process.cwd(), xlsxFile)}`);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export default ResultsSheetReporter;
@@ -1,408 +1,71 @@
-import { test, expect, Page } from '@playwright/test';
-import { testCases, TestCase } from './testData';
+import { test, expect } from './fixtures';
+import { loadTestCases } from './utils/dataLoader';
+import { crossCheck, describeComparison } from './utils/transliterator';
+import { roundTrip, describeRoundTrip } from './utils/reverseTransliterator';
+import { evaluateOracles, describeOracleResult } from './utils/negativeOracles';
+import { matchOutput, resolveMatchMode, describeMatch, preservesWhitespace } from './utils/matchModes';
+import { formatDiffHtml, formatDiffText } from './utils/graphemeDiff';
+import { recordTestCase, recordActualOutput, recordLatency } from './utils/resultAnnotations';
+import { resolveUiInputMode, typeWithTimeline, analyzeTimeline, formatTimeline } from './utils/keystrokeTimeline';
+import { startLatencyProbe, markInputComplete, readLatency } from './utils/latency';
+import { waitForStableOutput, readOutputText } from './utils/stableOutput';
+import { attachSinhalaValidation } from './utils/sinhalaValidator';
+import { formatTitleTags } from './utils/categories';
+import { checkGoldenOutput, describeGoldenComparison } from './utils/goldenSnapshots';
+import { normalizeText, normalizeLineEndings } from './pages/translatorDom';
 
-/**
- * Normalizes text by trimming and collapsing multiple spaces
- */
-function normalizeText(text: string): string {
-  return text.trim().replace(/\s+/g, ' ');
-}
-
-/**
- * Finds the input textarea using multiple selector strategies
- */
-async function findInputTextarea(page: Page) {
-  // Try multiple selector strategies in order of preference
-  const selectors = [
-    'textarea[id*="input"]',
-    'textarea[data-testid*="input"]',
-    'textarea[placeholder*="input" i]',
-    'textarea[placeholder*="singlish" i]',
-    'textarea[placeholder*="enter" i]',
-    'textarea[aria-label*="input" i]',
-    'textarea[aria-label*="singlish" i]',
-    'textarea:first-of-type',
-    'textarea',
-  ];
-
-  for (const selector of selectors) {
-    const element = page.locator(selector).first();
-    if (await element.count() > 0) {
-      return element;
-    }
-  }
-
-  throw new Error('Could not find input textarea element');
-}
-
-/**
- * Finds the output container using multiple selector strategies
- * Since videos show the site works, output exists but might be in a div/span, not textarea
- */
-async function findOutputContainer(page: Page, inputLocator?: ReturnType<typeof page.locator>) {
-  // Wait for page to be ready
-  await page.waitForLoadState('domcontentloaded');
-  await page.waitForTimeout(500);
-  
-  // Strategy 1: Check for second textarea (if it exists)
-  const textareas = page.locator('textarea');
-  const textareaCount = await textareas.count();
-  
-  if (textareaCount >= 2) {
-    return textareas.nth(1);
-  }
-  
-  // Strategy 2: Since only 1 textarea exists, output must be in a different element
-  // Look for elements that contain Sinhala characters (most reliable indicator)
-  try {
-    const outputElement = await page.evaluateHandle(() => {
-      // Find all possible output containers
-      const allElements = Array.from(document.querySelectorAll('div, span, p, pre, code, [contenteditable]'));
-      
-      for (const el of allElements) {
-        const text = el.textContent || '';
-        // Check if it contains Sinhala Unicode characters
-        if (text.match(/[\u0D80-\u0DFF]/)) {
-          // Make sure it's not the input or a parent container with too much text
-          if (text.length < 10000 && el.offsetParent !== null) {
-            return el;
-          }
-        }
-      }
-      return null;
-    }).catch(() => null);
-    
-    if (outputElement && outputElement.asElement()) {
-      // Create a locator for this element using its attributes
-      const elementInfo = await outputElement.evaluate((el: Element) => {
-        return {
-          tag: el.tagName.toLowerCase(),
-          id: el.id || '',
-          className: el.className?.toString().split(' ')[0] || '',
-        };
-      }).catch(() => null);
-      
-      if (elementInfo) {
-        if (elementInfo.id) {
-          return page.locator(`#${elementInfo.id}`);
-        } else if (elementInfo.className) {
-          return page.locator(`${elementInfo.tag}.${elementInfo.className}`).first();
-        } else {
-          // Use a more specific selector - find element with Sinhala text
-          return page.locator(`${elementInfo.tag}:has-text(/[\u0D80-\u0DFF]/)`).first();
-        }
-      }
-    }
-  } catch (e) {
-    // Continue
-  }
-  
-  // Strategy 3: Look for common output container patterns
-  const outputSelectors = [
-    'div[contenteditable]',
-    '[contenteditable="true"]',
-    '[contenteditable="false"]',
-    'div[id*="output" i]',
-    'div[id*="result" i]',
-    'div[id*="translation" i]',
-    'div[class*="output" i]',
-    'div[class*="result" i]',
-    'div[class*="translation" i]',
-    '[data-testid*="output" i]',
-    '[data-testid*="result" i]',
-    'pre',
-    'code',
-  ];
-  
-  for (const selector of outputSelectors) {
-    try {
-      const element = page.locator(selector).first();
-      const count = await element.count();
-      if (count > 0) {
-        const isVisible = await element.isVisible({ timeout: 1000 }).catch(() => false);
-        if (isVisible) {
-          return element;
-        }
-      }
-    } catch (e) {
-      // Continue
-    }
-  }
-  
-  // Strategy 4: Find element near "Sinhala" label
-  try {
-    const sinhalaLabel = page.locator('text=/Sinhala/i').first();
-    if (await sinhalaLabel.isVisible({ timeout: 2000 }).catch(() => false)) {
-      // Find the next element after Sinhala label that might contain output
-      const parent = sinhalaLabel.locator('..');
-      const outputInParent = parent.locator('div, span, p, pre').first();
-      if (await outputInParent.isVisible({ timeout: 1000 }).catch(() => false)) {
-        return outputInParent;
-      }
-    }
-  } catch (e) {
-    // Continue
-  }
-  
-  // Strategy 5: Last resort - return a generic locator that filters for Sinhala text
-  // This will find the output element by its content (Sinhala characters)
-  try {
-    const sinhalaElement = page.locator('div, span, p, pre').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-    const count = await sinhalaElement.count();
-    if (count > 0) {
-      return sinhalaElement;
-    }
-  } catch (e) {
-    // Continue
-  }
-  
-  // If we still can't find it, the output might not have appeared yet
-  // Return a generic div locator that we'll check later
-  return page.locator('div').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-}
-
-/**
- * Extracts only the Sinhala translation text from the output element
- * Filters out UI elements, labels, and other non-translation content
- */
-async function extractTranslationText(page: Page, outputLocator: ReturnType<typeof page.locator>): Promise<string> {
-  // For textarea elements, use inputValue() to get the actual value
-  const tagName = await outputLocator.evaluate(el => el.tagName.toLowerCase()).catch(() => '');
-  
-  let text = '';
-  if (tagName === 'textarea' || tagName === 'input') {
-    // Get the value directly from textarea/input
-    text = await outputLocator.inputValue().catch(() => '');
-  } else {
-    // For other elements, try to find the most specific child element with translation
-    // First, try to find a direct child that contains the translation (not nested UI elements)
-    const directText = await outputLocator.evaluate((el) => {
-      // Try to find the actual text node or a direct child with translation
-      const children = Array.from(el.children);
-      for (const child of children) {
-        const childText = child.textContent || '';
-        // If child has Sinhala and is not too long (likely the translation)
-        if (childText.match(/[\u0D80-\u0DFF]/) && childText.length < 1000) {
-          return childText;
-        }
-      }
-      // If no direct child, get the element's own text (excluding children)
-      return el.childNodes.length > 0 ? 
-        Array.from(el.childNodes)
-          .filter(node => node.nodeType === 3) // Text nodes only
-          .map(node => node.textContent)
-          .join('') : el.textContent || '';
-    }).catch(() => '');
-    
-    if (directText && directText.length > 0) {
-      text = directText;
-    } else {
-      // Fallback: get all text content
-      text = await outputLocator.textContent() || '';
-    }
-    
-    // Filter out UI elements and character reference tables
-    // Remove patterns like "( . . - පිළිවෙළ). . අආඇඈඉඊඋඌ..." (character reference tables)
-    text = text.replace(/\([^)]*පිළිවෙළ[^)]*\)[^]*?අආඇඈඉඊඋඌ[^]*?/g, '');
-    
-    // Remove very long sequences of single Sinhala characters (character reference tables)
-    text = text.replace(/[අ-ෆ]{50,}/g, '');
-    
-    // Remove patterns that start with "( . . -" followed by Sinhala characters
-    text = text.replace(/\([^)]*\.\s*\.\s*-[^)]*\)[^]*?/g, '');
-    
-    // If the text still contains UI elements, try to extract just the translation
-    if (text.length > 500 || text.includes('Singlish') || text.includes('Translate') || text.includes('Clear')) {
-      // Split by common separators and find the segment with the most meaningful content
-      const segments = text.split(/\s{3,}|\n{2,}/); // Split by multiple spaces or newlines
-      let bestSegment = '';
-      let maxScore = 0;
-      
-      for (const segment of segments) {
-        // Score based on: has Sinhala, has English/numbers (mixed content), reasonable length
-        const hasSinhala = segment.match(/[\u0D80-\u0DFF]/);
-        const hasEnglish = segment.match(/[a-zA-Z0-9]/);
-        const length = segment.trim().length;
-        
-        if (hasSinhala && length > 0 && length < 500) {
-          let score = length;
-          if (hasEnglish) score += 50; // Bonus for mixed content (likely translation)
-          if (length > 10 && length < 200) score += 30; // Bonus for reasonable length
-          
-          if (score > maxScore) {
-            maxScore = score;
-            bestSegment = segment.trim();
-          }
-        }
-      }
-      
-      if (bestSegment) {
-        text = bestSegment;
-      } else {
-        // Fallback: extract meaningful sentences (mix of Sinhala, English, numbers, and punctuation)
-        const meaningfulText = text.match(/[^\u0D80-\u0DFF]*[\u0D80-\u0DFF]+[^\u0D80-\u0DFF]*[\u0D80-\u0DFF]+/g);
-        if (meaningfulText && meaningfulText.length > 0) {
-          // Get the longest meaningful segment (likely the translation)
-          text = meaningfulText.sort((a, b) => b.length - a.length)[0];
-        } else {
-          // Fallback: extract only Sinhala Unicode characters, English, numbers, and spaces/punctuation
-          const sinhalaOnly = text.match(/[\u0D80-\u0DFFa-zA-Z0-9\s.,!?;:()"'-]+/g);
-          if (sinhalaOnly) {
-            text = sinhalaOnly.join(' ').trim();
-          }
-        }
-      }
-    }
-  }
-  
-  return normalizeText(text);
-}
-
-/**
- * Waits for output to update (becomes non-empty)
- */
-async function waitForOutputUpdate(page: Page, outputLocator: ReturnType<typeof page.locator>, timeout = 10000) {
-  // Wait for the output to have some content
-  // Check both textContent and inputValue for textareas
-  const tagName = await outputLocator.evaluate(el => el.tagName.toLowerCase()).catch(() => '');
-  
-  if (tagName === 'textarea' || tagName === 'input') {
-    // For textarea/input, wait for value to be non-empty
-    await expect(async () => {
-      const value = await outputLocator.inputValue();
-      expect(value.trim().length).toBeGreaterThan(0);
-    }).toPass({ timeout });
-  } else {
-    // For other elements (div, span, etc.), wait for text content with Sinhala characters
-    await expect(async () => {
-      const text = await outputLocator.textContent();
-      const hasSinhala = text && text.match(/[\u0D80-\u0DFF]/);
-      expect(hasSinhala).toBeTruthy();
-    }).toPass({ timeout });
-  }
-  
-  // Additional wait to ensure output is stable
-  await page.waitForTimeout(500);
-}
+// testData.ts plus any CSV/JSON/XLSX cases in the data directory (TEST_DATA_DIR)
+const testCases = loadTestCases();
 
 test.describe('SwiftTranslator Tests', () => {
-  test.beforeEach(async ({ page }) => {
-    await page.goto('https://www.swifttranslator.com/');
-    
-    // Wait for page to load
-    await page.waitForLoadState('networkidle');
-    
-    // Wait for at least one textarea to be visible (input field)
-    await page.waitForSelector('textarea', { state: 'visible', timeout: 10000 }).catch(() => {});
-  });
-
   // Positive functional tests
   const positiveTests = testCases.filter(tc => tc.type === 'positive');
   for (const testCase of positiveTests) {
-    test(`Positive: ${testCase.id} - ${testCase.name}`, async ({ page }) => {
-      // Find input element first
-      const inputLocator = await findInputTextarea(page);
-      
-      // Ensure input is visible
-      await expect(inputLocator).toBeVisible({ timeout: 10000 });
-      
-      // Clear input first
-      await inputLocator.clear();
-      await page.waitForTimeout(500);
-      
-      // Fill input with test data (output might appear after this)
-      await inputLocator.fill(testCase.input);
-      
-      // Wait a bit for the page to process the input
-      await page.waitForTimeout(1000);
-      
-      // Find output element AFTER typing (output appears dynamically)
-      // Wait for output to appear after typing
-      await page.waitForTimeout(2000);
-      
-      let outputLocator: ReturnType<typeof page.locator> | null = null;
-      
-      // Try to find output element that contains Sinhala text
-      try {
-        outputLocator = await findOutputContainer(page, inputLocator);
-      } catch (e) {
-        // Continue to fallback
-      }
-      
-      // If not found, search for element with Sinhala characters directly
-      if (!outputLocator) {
-        await page.waitForTimeout(2000);
+    test(`Positive: ${testCase.id} - ${testCase.name}${formatTitleTags(testCase)}`, async ({ translator }) => {
+      recordTestCase(test.info(), testCase);
+      
+      // Enter the input and wait for the translation to settle
+      const result = await translator.translate(testCase.input);
+      const normalizedOutput = result.output;
+      const matchMode = resolveMatchMode(testCase);
+      // Line-structure cases (preserve-whitespace) compare the output with its spaces and line breaks intact
+      const comparedOutput = preservesWhitespace(matchMode) ? result.rawOutput : normalizedOutput;
+      const comparedExpected = preservesWhitespace(matchMode) ? normalizeLineEndings(testCase.expected) : normalizeText(testCase.expected);
+      recordActualOutput(test.info(), comparedOutput);
+      recordLatency(test.info(), result.latencyMs);
+      
+      // Report structurally invalid Sinhala (orphan signs, broken conjuncts, non-NFC)
+      await attachSinhalaValidation(test.info(), normalizedOutput);
+      
+      // Flag cases where the site, the data and the reference transliterator disagree
+      const comparison = crossCheck(testCase, normalizedOutput);
+      if (comparison.verdict !== 'all-agree') {
+        test.info().annotations.push({ type: 'oracle', description: describeComparison(comparison) });
+      }
+      
+      // Syllables that do not survive canonical(input) vs reverse(output) (romanisation issue or translator bug)
+      const roundTripResult = roundTrip(testCase, normalizedOutput);
+      if (!roundTripResult.passed) {
+        test.info().annotations.push({ type: 'round-trip', description: describeRoundTrip(roundTripResult) });
+      }
+      
+      // Assert output matches expected using the case's match mode (matchMode / MATCH_MODE, default exact)
+      const match = matchOutput(comparedOutput, comparedExpected, matchMode);
+      test.info().annotations.push({ type: 'match', description: describeMatch(match) });
+      
+      if (!match.passed) {
+        // Attach a grapheme-level diff so ZWJ/virama/vowel sign differences are visible
+        await test.info().attach('grapheme-diff.html', {
+          body: formatDiffHtml(comparedExpected, comparedOutput),
+          contentType: 'text/html',
+        });
+        await test.info().attach('grapheme-diff.txt', {
+          body: formatDiffText(comparedExpected, comparedOutput),
+          contentType: 'text/plain',
+        });
         
-        // Find any element containing Sinhala text
-        const elementInfo = await page.evaluate(() => {
-          const allElements = Array.from(document.querySelectorAll('div, span, p, pre, code, [contenteditable]'));
-          for (const el of allElements) {
-            const text = el.textContent || '';
-            if (text.match(/[\u0D80-\u0DFF]/) && text.length < 5000) {
-              return {
-                tag: el.tagName.toLowerCase(),
-                id: el.id || '',
-                className: el.className?.toString().split(' ')[0] || '',
-              };
-            }
-          }
-          return null;
-        }).catch(() => null);
-        
-        if (elementInfo) {
-          if (elementInfo.id) {
-            outputLocator = page.locator(`#${elementInfo.id}`);
-          } else if (elementInfo.className) {
-            outputLocator = page.locator(`${elementInfo.tag}.${elementInfo.className}`).first();
-          } else {
-            outputLocator = page.locator(`${elementInfo.tag}`).filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-          }
-        } else {
-          // Last resort: use filter to find any element with Sinhala
-          outputLocator = page.locator('div, span, p').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-        }
-      }
-      
-      // Final fallback: use filter to find any element with Sinhala text
-      if (!outputLocator) {
-        await page.waitForTimeout(2000);
-        outputLocator = page.locator('div, span, p, pre').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-      }
-      
-      // Ensure output exists (don't check visibility - element might exist but not be "visible")
-      if (!outputLocator) {
-        throw new Error('Could not find output element. Translation may not have appeared.');
-      }
-      
-      const outputCount = await outputLocator.count();
-      if (outputCount === 0) {
-        throw new Error('Output element not found after typing. Translation may not have appeared.');
-      }
-      
-      // Check if there's a translate button and click it if needed
-      const translateButton = page.locator('button:has-text("Translate"), button:has-text("🔁"), [aria-label*="translate" i]').first();
-      if (await translateButton.isVisible({ timeout: 1000 }).catch(() => false)) {
-        await translateButton.click();
-      }
-      
-      // Wait for output to update
-      await waitForOutputUpdate(page, outputLocator);
-      
-      // Get output text - extract only the translation
-      const outputText = await extractTranslationText(page, outputLocator);
-      const normalizedOutput = normalizeText(outputText);
-      const normalizedExpected = normalizeText(testCase.expected);
-      
-      // Assert output matches expected (with flexible matching)
-      // Use exact match first, fallback to contains for stability
-      if (normalizedOutput === normalizedExpected) {
-        expect(normalizedOutput).toBe(normalizedExpected);
-      } else {
-        // For cases where exact match might differ slightly, use contains
-        // Check if output contains significant portion of expected text
-        const minLength = Math.min(5, normalizedExpected.length);
-        const expectedSubstring = normalizedExpected.substring(0, minLength);
-        expect(normalizedOutput).toContain(expectedSubstring);
+        // Fails with Playwright's string diff plus the match mode explanation
+        expect(comparedOutput, describeMatch(match)).toBe(comparedExpected);
       }
     });
   }
@@ -410,172 +73,120 @@ test.describe('SwiftTranslator Tests', () => {
   // Negative functional tests
   const negativeTests = testCases.filter(tc => tc.type === 'negative');
   for (const testCase of negativeTests) {
-    test(`Negative: ${testCase.id} - ${testCase.name}`, async ({ page }) => {
-      // Find input element first
-      const inputLocator = await findInputTextarea(page);
-      
-      // Ensure input is visible
-      await expect(inputLocator).toBeVisible({ timeout: 10000 });
-      
-      // Clear input first
-      await inputLocator.clear();
-      await page.waitForTimeout(500);
-      
-      // Fill input with test data (output might appear after this)
-      await inputLocator.fill(testCase.input);
-      
-      // Wait a bit for the page to process the input
-      await page.waitForTimeout(1000);
-      
-      // Find output element AFTER typing (output appears dynamically)
-      // Wait for output to appear after typing
-      await page.waitForTimeout(2000);
-      
-      let outputLocator: ReturnType<typeof page.locator> | null = null;
-      
-      // Try to find output element that contains Sinhala text
-      try {
-        outputLocator = await findOutputContainer(page, inputLocator);
-      } catch (e) {
-        // Continue to fallback
-      }
-      
-      // If not found, search for element with Sinhala characters directly
-      if (!outputLocator) {
-        await page.waitForTimeout(2000);
-        
-        // Find any element containing Sinhala text
-        const elementInfo = await page.evaluate(() => {
-          const allElements = Array.from(document.querySelectorAll('div, span, p, pre, code, [contenteditable]'));
-          for (const el of allElements) {
-            const text = el.textContent || '';
-            if (text.match(/[\u0D80-\u0DFF]/) && text.length < 5000) {
-              return {
-                tag: el.tagName.toLowerCase(),
-                id: el.id || '',
-                className: el.className?.toString().split(' ')[0] || '',
-              };
-            }
-          }
-          return null;
-        }).catch(() => null);
-        
-        if (elementInfo) {
-          if (elementInfo.id) {
-            outputLocator = page.locator(`#${elementInfo.id}`);
-          } else if (elementInfo.className) {
-            outputLocator = page.locator(`${elementInfo.tag}.${elementInfo.className}`).first();
-          } else {
-            outputLocator = page.locator(`${elementInfo.tag}`).filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-          }
-        } else {
-          // Last resort: use filter to find any element with Sinhala
-          outputLocator = page.locator('div, span, p').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
+    test(`Negative: ${testCase.id} - ${testCase.name}${formatTitleTags(testCase)}`, async ({ translator }) => {
+      recordTestCase(test.info(), testCase);
+      
+      // Output may be empty or incorrect, so only wait for it to stop changing
+      const result = await translator.translate(testCase.input, { requireOutput: false });
+      const normalizedOutput = result.output;
+      recordActualOutput(test.info(), normalizedOutput);
+      recordLatency(test.info(), result.latencyMs);
+      await attachSinhalaValidation(test.info(), normalizedOutput);
+      
+      // Golden output: `expected` is only a description, so compare with the approved output
+      // (stored on first run, accepted after review with --update-snapshots)
+      const golden = checkGoldenOutput(test.info(), testCase, normalizedOutput);
+      if (golden.status === 'changed' || golden.status === 'missing') {
+        if (golden.golden !== undefined) {
+          await test.info().attach('golden-diff.html', {
+            body: formatDiffHtml(golden.golden, normalizedOutput),
+            contentType: 'text/html',
+          });
+          await test.info().attach('golden-diff.txt', {
+            body: formatDiffText(golden.golden, normalizedOutput),
+            contentType: 'text/plain',
+          });
         }
+        // Soft, so the oracle verdict below is still reported
+        expect.soft(normalizedOutput, describeGoldenComparison(testCase, golden)).toBe(golden.golden);
       }
       
-      // Final fallback: use filter to find any element with Sinhala text
-      if (!outputLocator) {
-        await page.waitForTimeout(2000);
-        outputLocator = page.locator('div, span, p, pre').filter({ hasText: /[\u0D80-\u0DFF]/ }).first();
-      }
-      
-      // Ensure output exists (don't check visibility - element might exist but not be "visible")
-      if (!outputLocator) {
-        throw new Error('Could not find output element. Translation may not have appeared.');
-      }
-      
-      const outputCount = await outputLocator.count();
-      if (outputCount === 0) {
-        throw new Error('Output element not found after typing. Translation may not have appeared.');
-      }
-      
-      // Check if there's a translate button and click it if needed
-      const translateButton = page.locator('button:has-text("Translate"), button:has-text("🔁"), [aria-label*="translate" i]').first();
-      if (await translateButton.isVisible({ timeout: 1000 }).catch(() => false)) {
-        await translateButton.click();
+      // Negative test assertions come from the oracles selected by expectedType
+      // (defaults to: output is non-empty and differs from the input)
+      const verdict = evaluateOracles(testCase, normalizedOutput);
+      for (const result of verdict.results) {
+        test.info().annotations.push({ type: 'oracle-result', description: describeOracleResult(result) });
       }
+      test.info().annotations.push({ type: 'oracle-verdict', description: `decided by ${describeOracleResult(verdict.decidedBy)}` });
       
-      // Wait for output to update (may be empty or incorrect)
-      await page.waitForTimeout(2000); // Give more time for negative cases
-      
-      // Get output text - extract only the translation
-      const outputText = await extractTranslationText(page, outputLocator);
-      const normalizedOutput = normalizeText(outputText);
-      const normalizedInput = normalizeText(testCase.input);
-      
-      // Negative test assertions:
-      // 1. Output should not equal input (translation was attempted)
-      // 2. Output should be non-empty (some translation occurred)
-      expect(normalizedOutput).not.toBe(normalizedInput);
-      
-      // Verify output is non-empty (translation was attempted)
-      // Even if incorrect, the system should attempt translation
-      expect(normalizedOutput.length).toBeGreaterThan(0);
+      expect(verdict.passed, `Oracle ${describeOracleResult(verdict.decidedBy)} (output: "${normalizedOutput}")`).toBe(true);
     });
   }
 
   // UI test
   const uiTests = testCases.filter(tc => tc.type === 'ui');
   for (const testCase of uiTests) {
-    test(`UI: ${testCase.id} - ${testCase.name}`, async ({ page }) => {
-      // Find input element first
-      const inputLocator = await findInputTextarea(page);
-      
-      // Ensure input is visible
-      await expect(inputLocator).toBeVisible({ timeout: 10000 });
+    test(`UI: ${testCase.id} - ${testCase.name}${formatTitleTags(testCase)}`, async ({ translator, page }) => {
+      recordTestCase(test.info(), testCase);
       
-      // Find output element (may need to wait for it to appear)
-      let outputLocator: ReturnType<typeof page.locator>;
-      try {
-        outputLocator = await findOutputContainer(page, inputLocator);
-      } catch (e) {
-        // If output not found initially, it might appear after typing
-        // Fill input first, then try to find output
-        await inputLocator.fill('test');
-        await page.waitForTimeout(1000);
-        outputLocator = await findOutputContainer(page, inputLocator);
-        await inputLocator.clear();
-      }
+      const inputLocator = await translator.input();
+      const outputLocator = await translator.output();
       
       // Ensure output is visible
       await expect(outputLocator).toBeVisible({ timeout: 10000 });
       
       // Clear input first
       await inputLocator.clear();
-      await page.waitForTimeout(300);
-      
-      // Fill input with test data
-      await inputLocator.fill(testCase.input);
-      
-      // Check if there's a translate button and click it if needed
-      const translateButton = page.locator('button:has-text("Translate"), button:has-text("🔁"), [aria-label*="translate" i]').first();
-      if (await translateButton.isVisible({ timeout: 1000 }).catch(() => false)) {
-        await translateButton.click();
+      await waitForStableOutput(outputLocator);
+      
+      let outputTextBefore: string;
+      let latencyMs: number | null;
+      if (resolveUiInputMode() === 'keystroke') {
+        // Type character by character and sample the output after every keystroke
+        // (the input is tapped first under mobile emulation, as a user would)
+        await translator.focusInput();
+        await startLatencyProbe(outputLocator);
+        let previousOutput = await readOutputText(outputLocator);
+        const samples = await typeWithTimeline(
+          page,
+          inputLocator,
+          testCase.input,
+          () => translator.readOutput(),
+          async () => {
+            // Give a debounced translation time to arrive (a keystroke may leave the output unchanged), then let it settle
+            await waitForStableOutput(outputLocator, { baseline: previousOutput, timeout: 1000 }).catch(() => {});
+            previousOutput = (await waitForStableOutput(outputLocator)).text;
+          },
+          () => markInputComplete(page),
+        );
+        await test.info().attach('keystroke-timeline.txt', { body: formatTimeline(samples), contentType: 'text/plain' });
+        await test.info().attach('keystroke-timeline.json', { body: JSON.stringify(samples, null, 2), contentType: 'application/json' });
+        
+        const analysis = analyzeTimeline(samples, testCase.input, normalizeText(testCase.expected));
+        expect(analysis.issues, `Incremental output issues:\n${analysis.issues.join('\n')}`).toEqual([]);
+        
+        // Wait for output to appear
+        await translator.waitForOutput();
+        outputTextBefore = await translator.readOutput();
+        latencyMs = await readLatency(page);
+      } else {
+        const result = await translator.translate(testCase.input);
+        outputTextBefore = result.output;
+        latencyMs = result.latencyMs;
       }
       
-      // Wait for output to appear
-      await waitForOutputUpdate(page, outputLocator);
-      
       // Verify output is not empty
-      const outputTextBefore = await extractTranslationText(page, outputLocator);
+      recordActualOutput(test.info(), outputTextBefore);
+      recordLatency(test.info(), latencyMs);
+      await attachSinhalaValidation(test.info(), outputTextBefore);
       expect(outputTextBefore).not.toBe('');
       expect(outputTextBefore.trim().length).toBeGreaterThan(0);
       
-      // Clear input
-      await inputLocator.clear();
-      
-      // Try clicking clear button if it exists
-      const clearButton = page.locator('button:has-text("Clear"), button:has-text("🗑️"), [aria-label*="clear" i]').first();
-      if (await clearButton.isVisible().catch(() => false)) {
-        await clearButton.click();
+      // Copy must hand over the displayed translation (clipboard on Chromium, the page's copy on Firefox/WebKit)
+      if (await translator.hasCopyButton()) {
+        const copied = await translator.copyOutput();
+        test.info().annotations.push({ type: 'copied-output', description: copied });
+        expect(copied, 'Copied text should match the displayed output').toBe(outputTextBefore);
+      } else {
+        test.info().annotations.push({ type: 'copy', description: 'no copy button found, copy not checked' });
       }
       
-      await page.waitForTimeout(1500); // Wait for real-time update
-      
-      // Verify output is cleared immediately
-      const outputTextAfter = await extractTranslationText(page, outputLocator);
-      const normalizedAfter = normalizeText(outputTextAfter);
+      // Clear input (and the Clear button if it exists); if the output never changes the assertions below report it
+      const cleared = await translator.clear();
+      if (cleared.error) {
+        test.info().annotations.push({ type: 'stable-output', description: cleared.error });
+      }
+      const normalizedAfter = cleared.output;
       
       // Output should be empty or minimal after clearing
       // Filter out any remaining UI elements (character reference tables, etc.)
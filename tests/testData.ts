@@ -5,7 +5,12 @@ export interface TestCase {
   lengthType: 'S' | 'M' | 'L';
   input: string;
   expected: string;
+  // Oracle specs for negative cases, e.g. "differs-from-reference:mama dhaen enavaa" (see utils/negativeOracles.ts)
   expectedType?: string;
+  // Comparison for positive cases, e.g. "nfc" or "edit-distance:2" (see utils/matchModes.ts)
+  matchMode?: string;
+  // Linguistic categories the case covers, e.g. ["question", "mixed-english"] (see utils/categories.ts)
+  tags?: string[];
 }
 
 export const testCases: TestCase[] = [
@@ -14,6 +19,7 @@ export const testCases: TestCase[] = [
     name: "Convert a daily greeting",
     type: "positive",
     lengthType: "S",
+    tags: ["greeting"],
     input: "suba udhaeesanak",
     expected: "සුබ උදෑසනක්"
   },
@@ -22,6 +28,7 @@ export const testCases: TestCase[] = [
     name: "Convert a simple thank you",
     type: "positive",
     lengthType: "S",
+    tags: ["greeting"],
     input: "bohooma sthuthi",
     expected: "බොහෝම ස්තුති"
   },
@@ -30,6 +37,7 @@ export const testCases: TestCase[] = [
     name: "Convert a simple apology",
     type: "positive",
     lengthType: "S",
+    tags: ["greeting", "imperative"],
     input: "samaavenna",
     expected: "සමාවෙන්න"
   },
@@ -38,6 +46,7 @@ export const testCases: TestCase[] = [
     name: "Convert a permission question",
     type: "positive",
     lengthType: "M",
+    tags: ["question", "pronouns"],
     input: "mata poddak eLiyata yanna puLuvandha",
     expected: "මට පොඩ්ඩක් එළියට යන්න පුළුවන්ද"
   },
@@ -46,6 +55,7 @@ export const testCases: TestCase[] = [
     name: "Convert an instruction",
     type: "positive",
     lengthType: "S",
+    tags: ["imperative"],
     input: "meeka balanna",
     expected: "මේක බලන්න"
   },
@@ -54,6 +64,7 @@ export const testCases: TestCase[] = [
     name: "Convert a negative instruction",
     type: "positive",
     lengthType: "S",
+    tags: ["imperative", "negation"],
     input: "meeka karanna epaa",
     expected: "මේක කරන්න එපා"
   },
@@ -62,6 +73,7 @@ export const testCases: TestCase[] = [
     name: "Convert past tense activity",
     type: "positive",
     lengthType: "S",
+    tags: ["past-tense", "pronouns"],
     input: "mama iiyee panthi giyaa",
     expected: "මම ඊයේ පන්ති ගියා"
   },
@@ -70,6 +82,7 @@ export const testCases: TestCase[] = [
     name: "Convert present continuous",
     type: "positive",
     lengthType: "S",
+    tags: ["present-tense", "pronouns"],
     input: "eyaa dhaen aevidhinavaa",
     expected: "එයා දැන් ඇවිදිනවා"
   },
@@ -78,6 +91,7 @@ export const testCases: TestCase[] = [
     name: "Convert future plan",
     type: "positive",
     lengthType: "S",
+    tags: ["future-tense", "pronouns", "plural"],
     input: "Api adha rae yanne",
     expected: "අපි අද රැ යන්නෙ"
   },
@@ -86,6 +100,7 @@ export const testCases: TestCase[] = [
     name: "Convert compound sentence",
     type: "positive",
     lengthType: "M",
+    tags: ["past-tense", "pronouns", "punctuation"],
     input: "mama kanna giyaa, passe nidhaagaththaa",
     expected: "මම කන්න ගියා, පස්සෙ නිදාගත්තා"
   },
@@ -93,7 +108,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0011",
     name: "Convert reason sentence",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["past-tense", "mixed-english", "pronouns"],
     input: "traffic nisaa mama late unaa",
     expected: "traffic නිසා මම late උනා"
   },
@@ -102,6 +118,7 @@ export const testCases: TestCase[] = [
     name: "Convert question with time",
     type: "positive",
     lengthType: "M",
+    tags: ["question", "numbers-dates", "punctuation"],
     input: "adha kohomadha 7.00ta enavadha?",
     expected: "අද කොහොමද 7.00ට එනවද?"
   },
@@ -109,7 +126,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0013",
     name: "Convert plural people",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["imperative", "pronouns", "plural"],
     input: "api okkoma yamu",
     expected: "අපි ඔක්කොම යමු"
   },
@@ -117,7 +135,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0014",
     name: "Convert pronoun variation",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["pronouns"],
     input: "eyaa mata kiyuvahama",
     expected: "එයා මට කියුවහම"
   },
@@ -125,7 +144,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0015",
     name: "Convert pronoun variation",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["pronouns"],
     input: "eyaa mata kiyuvahama",
     expected: "එයා මට කියුවහම"
   },
@@ -134,6 +154,7 @@ export const testCases: TestCase[] = [
     name: "Convert pronoun variation",
     type: "positive",
     lengthType: "M",
+    tags: ["mixed-english", "pronouns", "plural"],
     input: "api Galle giyaama beach ekata yanava",
     expected: "අපි Galle ගියාම beach එකට යනව"
   },
@@ -141,7 +162,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0017",
     name: "Convert instruction with currency",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["imperative", "numbers-dates"],
     input: "Rs 1500k thiyenavanam dhenna",
     expected: "Rs 1500ක් තියෙනවනම් දෙන්න"
   },
@@ -150,6 +172,7 @@ export const testCases: TestCase[] = [
     name: "Convert short confirmation",
     type: "positive",
     lengthType: "S",
+    tags: ["future-tense", "pronouns", "punctuation"],
     input: "hari, mama ennam",
     expected: "හරි, මම එන්නම්"
   },
@@ -158,6 +181,7 @@ export const testCases: TestCase[] = [
     name: "Convert emphasis repetition",
     type: "positive",
     lengthType: "S",
+    tags: ["negation", "repetition", "punctuation"],
     input: "epaa epaa, mata epaa",
     expected: "එපා එපා, මට එපා"
   },
@@ -166,6 +190,7 @@ export const testCases: TestCase[] = [
     name: "Convert instruction with brackets",
     type: "positive",
     lengthType: "S",
+    tags: ["imperative", "mixed-english", "punctuation"],
     input: "meka (urgent) vahaama karanna",
     expected: "මෙක (urgent) වහාම කරන්න"
   },
@@ -173,7 +198,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0021",
     name: "Convert instruction with quotation marks",
     type: "positive",
-    lengthType: "S",
+    lengthType: "M",
+    tags: ["past-tense", "imperative", "mixed-english", "punctuation"],
     input: "\"report eka heta dhenna\" kiyala sir kivvaa",
     expected: "\"report එක හෙට දෙන්න\" කියල sir කිව්වා"
   },
@@ -182,6 +208,7 @@ export const testCases: TestCase[] = [
     name: "Convert input with extra spaces",
     type: "positive",
     lengthType: "S",
+    tags: ["present-tense", "pronouns", "spacing"],
     input: "mama       dhaen enavaa",
     expected: "මම දැන් එනවා"
   },
@@ -189,7 +216,8 @@ export const testCases: TestCase[] = [
     id: "Pos_Fun_0023",
     name: "Convert future intention after past action",
     type: "positive",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["future-tense", "pronouns"],
     input: "mama gedhara gihin kiyannam",
     expected: "මම ගෙදර ගිහින් කියන්නම්"
   },
@@ -198,6 +226,7 @@ export const testCases: TestCase[] = [
     name: "Convert input with irregular spacing between words",
     type: "positive",
     lengthType: "S",
+    tags: ["future-tense", "pronouns", "plural"],
     input: "api heta yanava",
     expected: "අපි හෙට යනවා"
   },
@@ -206,30 +235,37 @@ export const testCases: TestCase[] = [
     name: "No spaces between words",
     type: "negative",
     lengthType: "S",
+    tags: ["spacing", "spelling-variant"],
     input: "mamadanenawa",
-    expected: "Incorrect or unreadable Sinhala output"
+    expected: "Incorrect or unreadable Sinhala output",
+    expectedType: "differs-from-reference:mama dhaen enavaa"
   },
   {
     id: "Neg_Fun_0026",
     name: "Special characters inside text",
     type: "negative",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["symbols"],
     input: "mama ge$dhara ya#nawa",
-    expected: "Incorrect Sinhala output due to symbols"
+    expected: "Incorrect Sinhala output due to symbols",
+    expectedType: "contains-symbol-passthrough"
   },
   {
     id: "Neg_Fun_0027",
     name: "Heavy spelling mistakes",
     type: "negative",
     lengthType: "S",
+    tags: ["spelling-variant"],
     input: "mama gedhara ynw",
-    expected: "Partially incorrect Sinhala output"
+    expected: "Partially incorrect Sinhala output",
+    expectedType: "differs-from-reference:mama gedhara yanavaa"
   },
   {
     id: "Neg_Fun_0028",
     name: "English-dominant mixed sentence",
     type: "negative",
     lengthType: "S",
+    tags: ["mixed-english"],
     input: "please send me the file eka",
     expected: "Inconsistent or incorrect Sinhala conversion"
   },
@@ -237,31 +273,38 @@ export const testCases: TestCase[] = [
     id: "Neg_Fun_0029",
     name: "Unsupported special symbols inside words",
     type: "negative",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["symbols"],
     input: "mama @gedhara #yanawa",
-    expected: "Inconsistent or incorrect Sinhala conversion"
+    expected: "Inconsistent or incorrect Sinhala conversion",
+    expectedType: "contains-symbol-passthrough"
   },
   {
     id: "Neg_Fun_0030",
     name: "Excess repeated characters",
     type: "negative",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["repetition", "spelling-variant"],
     input: "mama daaaaan eeeenawaa",
-    expected: "Distorted or unnatural Sinhala output"
+    expected: "Distorted or unnatural Sinhala output",
+    expectedType: "differs-from-reference:mama dhaen enavaa"
   },
   {
     id: "Neg_Fun_0031",
     name: "Random capitalization usage",
     type: "negative",
-    lengthType: "M",
+    lengthType: "S",
+    tags: ["capitalisation"],
     input: "MaMa DaN EnAwA",
-    expected: "Inconsistent or incorrect Sinhala output"
+    expected: "Inconsistent or incorrect Sinhala output",
+    expectedType: "differs-from-reference:mama dhaen enavaa"
   },
   {
     id: "Neg_Fun_0032",
     name: "Long unpunctuated paragraph",
     type: "negative",
-    lengthType: "L",
+    lengthType: "M",
+    tags: ["past-tense", "mixed-english"],
     input: "mama ada udeta nagitala gedhara wada karala passe bus eka gihin office giyaa eeta passe meeting thibba raa wenakota gedhara awilla bath kanna kalin rest una ita passe phone eka ring una mama answer kala ehema",
     expected: "Reduced accuracy or broken sentence structure"
   },
@@ -269,7 +312,8 @@ export const testCases: TestCase[] = [
     id: "Neg_Fun_0033",
     name: "Invalid phonetic input",
     type: "negative",
-    lengthType: "L",
+    lengthType: "S",
+    tags: ["gibberish"],
     input: "qwerty asdfgh",
     expected: "No meaningful Sinhala output"
   },
@@ -277,16 +321,39 @@ export const testCases: TestCase[] = [
     id: "Neg_Fun_0034",
     name: "Numeric-only input",
     type: "negative",
-    lengthType: "L",
+    lengthType: "S",
+    tags: ["numbers-dates"],
     input: "999999 12:00 2026-01-30",
-    expected: "Not a meaningful Sinhala sentence"
+    expected: "Not a meaningful Sinhala sentence",
+    expectedType: "output-equals-snapshot:999999 12:00 2026-01-30"
   },
   {
     id: "Pos_UI_0035",
-    name: "Real-time output updates while typingt",
+    name: "Real-time output updates while typing",
     type: "ui",
     lengthType: "S",
+    tags: ["present-tense", "pronouns"],
     input: "mama dhaen enavaa",
-    expected: "Sinhala output updates continuously as user types each character"
+    expected: "මම දැන් එනවා"
+  },
+  {
+    id: "Pos_Fun_0036",
+    name: "Convert two lines keeping the line break",
+    type: "positive",
+    lengthType: "M",
+    tags: ["multi-line", "present-tense", "imperative", "punctuation"],
+    input: "mama adha gedhara yanavaa.\napi heta hamuvemu.",
+    expected: "මම අද ගෙදර යනවා.\nඅපි හෙට හමුවෙමු.",
+    matchMode: "preserve-whitespace"
+  },
+  {
+    id: "Pos_Fun_0037",
+    name: "Convert paragraphs keeping blank lines between them",
+    type: "positive",
+    lengthType: "L",
+    tags: ["multi-line", "greeting", "past-tense", "question", "mixed-english", "punctuation"],
+    input: "suba udhaeesanak!\n\nmama adha udheema vaedata giyaa. passe bus ekee gedhara aavaa. eeta passe api okkoma ekata kanna giyaa.\n\neyaa heta enavaa kivvaa, mama gedhara inne. api heta hamuvemu. mama dhaen gedhara yanavaa, passe kathaa karamu.\n\nmata poddak eLiyata yanna puLuvandha? traffic nisaa mama late unaa.\n\nbohooma sthuthi",
+    expected: "සුබ උදෑසනක්!\n\nමම අද උදේම වැඩට ගියා. පස්සෙ bus එකේ ගෙදර ආවා. ඒට පස්සෙ අපි ඔක්කොම එකට කන්න ගියා.\n\nඑයා හෙට එනවා කිව්වා, මම ගෙදර ඉන්නෙ. අපි හෙට හමුවෙමු. මම දැන් ගෙදර යනවා, පස්සෙ කතා කරමු.\n\nමට පොඩ්ඩක් එළියට යන්න පුළුවන්ද? traffic නිසා මම late උනා.\n\nබොහෝම ස්තුති",
+    matchMode: "preserve-whitespace"
   }
 ];
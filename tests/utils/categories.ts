@@ -0,0 +1,116 @@
+import { TestCase } from '../testData';
+
+/**
+ * Linguistic category tags for test cases and the category coverage report.
+ * Tags are appended to test titles as "@tag", so a subset can be run with
+ * `npx playwright test --grep @negation`.
+ */
+
+export const CATEGORY_TAGS = [
+  'greeting',
+  'past-tense',
+  'present-tense',
+  'future-tense',
+  'negation',
+  'question',
+  'imperative',
+  'pronouns',
+  'plural',
+  'mixed-english',
+  'numbers-dates',
+  'punctuation',
+  'spacing',
+  'multi-line',
+  'repetition',
+  'spelling-variant',
+  'capitalisation',
+  'symbols',
+  'gibberish',
+] as const;
+
+export type CategoryTag = typeof CATEGORY_TAGS[number];
+
+export interface CoverageCell {
+  type: TestCase['type'];
+  lengthType: TestCase['lengthType'];
+  count: number;
+}
+
+export interface CategoryCoverage {
+  // Category tag, or "(untagged)"
+  category: string;
+  total: number;
+  cells: CoverageCell[];
+  ids: string[];
+}
+
+const TYPES: TestCase['type'][] = ['positive', 'negative', 'ui'];
+const LENGTH_TYPES: TestCase['lengthType'][] = ['S', 'M', 'L'];
+const UNTAGGED = '(untagged)';
+
+export function isCategoryTag(tag: string): tag is CategoryTag {
+  return (CATEGORY_TAGS as readonly string[]).includes(tag);
+}
+
+/**
+ * Tags from a spreadsheet cell: separated by ";", "," or whitespace, "@" optional
+ */
+export function parseTags(value: string): string[] {
+  return value
+    .split(/[;,\s]+/)
+    .map(tag => tag.trim().replace(/^@/, '').toLowerCase())
+    .filter(tag => tag.length > 0);
+}
+
+/**
+ * Title suffix carrying the case's tags, e.g. " @question @mixed-english"
+ */
+export function formatTitleTags(testCase: TestCase): string {
+  return (testCase.tags ?? []).map(tag => ` @${tag}`).join('');
+}
+
+/**
+ * Cases per category × type × lengthType; every known category is listed, even uncovered ones
+ */
+export function buildCategoryCoverage(cases: TestCase[]): CategoryCoverage[] {
+  const usedTags = cases.flatMap(testCase => testCase.tags ?? []);
+  const categories = [...CATEGORY_TAGS, ...usedTags.filter(tag => !isCategoryTag(tag))];
+  if (cases.some(testCase => !testCase.tags || testCase.tags.length === 0)) {
+    categories.push(UNTAGGED);
+  }
+
+  return Array.from(new Set(categories)).map(category => {
+    const members = cases.filter(testCase =>
+      category === UNTAGGED ? !testCase.tags || testCase.tags.length === 0 : (testCase.tags ?? []).includes(category),
+    );
+    const cells = TYPES.flatMap(type => LENGTH_TYPES.map(lengthType => ({
+      type,
+      lengthType,
+      count: members.filter(testCase => testCase.type === type && testCase.lengthType === lengthType).length,
+    })));
+    return { category, total: members.length, cells, ids: members.map(testCase => testCase.id) };
+  });
+}
+
+/**
+ * Markdown table: one row per category, one column per type/lengthType pair
+ */
+export function formatCoverageMarkdown(coverage: CategoryCoverage[]): string {
+  const columns = TYPES.flatMap(type => LENGTH_TYPES.map(lengthType => `${type} ${lengthType}`));
+  const lines = [
+    `| Category | Total | ${columns.join(' | ')} |`,
+    `|----------|-------|${columns.map(() => '---').join('|')}|`,
+  ];
+
+  for (const row of coverage) {
+    const counts = row.cells.map(cell => (cell.count === 0 ? '·' : String(cell.count)));
+    lines.push(`| ${row.category} | ${row.total} | ${counts.join(' | ')} |`);
+  }
+
+  const uncovered = coverage.filter(row => row.total === 0).map(row => row.category);
+  if (uncovered.length > 0) {
+    lines.push('', `Categories without cases: ${uncovered.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
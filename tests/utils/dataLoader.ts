@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { testCases, TestCase } from '../testData';
+import { parseTags } from './categories';
+
+/**
+ * Loads TestCase records from CSV, JSON and XLSX files and merges them with
+ * the cases defined in testData.ts.
+ * The directory defaults to tests/data and can be changed with TEST_DATA_DIR.
+ */
+
+export const DEFAULT_TEST_DATA_DIR = path.resolve(__dirname, '..', 'data');
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.json', '.xlsx'];
+
+// Spreadsheet column headers (lower-cased, alphanumerics only) → TestCase fields
+const HEADER_ALIASES: Record<string, keyof TestCase> = {
+  id: 'id',
+  tcid: 'id',
+  testcaseid: 'id',
+  name: 'name',
+  testcasename: 'name',
+  type: 'type',
+  lengthtype: 'lengthType',
+  inputlengthtype: 'lengthType',
+  input: 'input',
+  expected: 'expected',
+  expectedoutput: 'expected',
+  expectedtype: 'expectedType',
+  matchmode: 'matchMode',
+  tags: 'tags',
+  categories: 'tags',
+};
+
+const TYPES: TestCase['type'][] = ['positive', 'negative', 'ui'];
+const LENGTH_TYPES: TestCase['lengthType'][] = ['S', 'M', 'L'];
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Converts one raw row/object into a TestCase, throwing on missing or invalid fields
+ */
+function toTestCase(raw: RawRecord, source: string): TestCase {
+  const fields: Partial<Record<keyof TestCase, string>> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = HEADER_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (field && value !== undefined && value !== null && String(value) !== '') {
+      // JSON files may give tags as an array
+      fields[field] = Array.isArray(value) ? value.join(';') : String(value);
+    }
+  }
+
+  for (const required of ['id', 'name', 'type', 'lengthType', 'input', 'expected'] as const) {
+    if (fields[required] === undefined) {
+      throw new Error(`${source}: missing required field "${required}"`);
+    }
+  }
+
+  const type = fields.type!.trim().toLowerCase() as TestCase['type'];
+  if (!TYPES.includes(type)) {
+    throw new Error(`${source}: invalid type "${fields.type}" (expected ${TYPES.join(', ')})`);
+  }
+
+  const lengthType = fields.lengthType!.trim().toUpperCase() as TestCase['lengthType'];
+  if (!LENGTH_TYPES.includes(lengthType)) {
+    throw new Error(`${source}: invalid lengthType "${fields.lengthType}" (expected ${LENGTH_TYPES.join(', ')})`);
+  }
+
+  const testCase: TestCase = {
+    id: fields.id!.trim(),
+    name: fields.name!.trim(),
+    type,
+    lengthType,
+    input: fields.input!,
+    expected: fields.expected!,
+  };
+
+  if (fields.expectedType !== undefined) {
+    testCase.expectedType = fields.expectedType.trim();
+  }
+
+  if (fields.matchMode !== undefined) {
+    testCase.matchMode = fields.matchMode.trim();
+  }
+
+  if (fields.tags !== undefined) {
+    testCase.tags = parseTags(fields.tags);
+  }
+
+  return testCase;
+}
+
+/**
+ * Reads the first worksheet of a CSV/XLSX file as header-keyed rows
+ */
+function readSheetRows(file: string): RawRecord[] {
+  // CSV is read as UTF-8 text so Sinhala is not mangled by codepage detection
+  const workbook = path.extname(file).toLowerCase() === '.csv'
+    ? XLSX.read(fs.readFileSync(file, 'utf8'), { type: 'string', raw: true })
+    : XLSX.readFile(file, { raw: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return [];
+  }
+
+  return XLSX.utils.sheet_to_json<RawRecord>(sheet, { defval: '', raw: false });
+}
+
+/**
+ * Reads a JSON file holding either an array of cases or { testCases: [...] }
+ */
+function readJsonRecords(file: string): RawRecord[] {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const records = Array.isArray(parsed) ? parsed : parsed?.testCases;
+
+  if (!Array.isArray(records)) {
+    throw new Error(`${file}: expected an array of test cases or an object with a "testCases" array`);
+  }
+
+  return records;
+}
+
+/**
+ * Loads all test cases from a single CSV, JSON or XLSX file
+ */
+export function loadTestCaseFile(file: string): TestCase[] {
+  const extension = path.extname(file).toLowerCase();
+  const records = extension === '.json' ? readJsonRecords(file) : readSheetRows(file);
+  const name = path.basename(file);
+
+  return records
+    .filter(record => Object.values(record).some(value => String(value ?? '').trim() !== ''))
+    .map((record, index) => toTestCase(record, `${name} record ${index + 1}`));
+}
+
+/**
+ * Returns the data directory configured through TEST_DATA_DIR
+ */
+export function resolveTestDataDir(): string {
+  return process.env.TEST_DATA_DIR ? path.resolve(process.env.TEST_DATA_DIR) : DEFAULT_TEST_DATA_DIR;
+}
+
+/**
+ * Loads every supported file in the data directory (sorted by file name)
+ */
+export function loadTestCasesFromDir(dir: string = resolveTestDataDir()): TestCase[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => SUPPORTED_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !file.startsWith('~$'))
+    .sort()
+    .flatMap(file => loadTestCaseFile(path.join(dir, file)));
+}
+
+/**
+ * Cases from testData.ts followed by the cases loaded from the data directory
+ */
+export function loadTestCases(dir: string = resolveTestDataDir()): TestCase[] {
+  return [...testCases, ...loadTestCasesFromDir(dir)];
+}
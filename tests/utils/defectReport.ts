@@ -0,0 +1,189 @@
+import { TestCase } from '../testData';
+import { formatDiffText } from './graphemeDiff';
+
+/**
+ * Defect reports for failed translation cases: reproduction steps, input,
+ * expected vs actual output, grapheme diff, inferred severity and links to the
+ * failure artifacts. defectReportReporter writes one Markdown + JSON report per
+ * failed case and browser project.
+ *
+ * Severity is inferred from the case:
+ * - ui: critical (the translator UI itself is broken, whatever the input)
+ * - positive S: high (everyday short sentences translate wrongly)
+ * - positive M/L: medium
+ * - negative: low (robustness on malformed input)
+ */
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface DefectArtifact {
+  // Playwright attachment name: screenshot, video, trace, grapheme-diff.html, ...
+  name: string;
+  // Path relative to the report file
+  path: string;
+}
+
+export interface DefectReport {
+  id: string;
+  title: string;
+  severity: Severity;
+  type: TestCase['type'];
+  lengthType: TestCase['lengthType'];
+  tags: string[];
+  url: string;
+  steps: string[];
+  input: string;
+  expected: string;
+  actual: string;
+  // Grapheme diff of expected vs actual, when the expected value is an exact output
+  diff?: string;
+  error?: string;
+  // Test annotations that explain the failure (match, oracle verdict, validation, ...)
+  notes: string[];
+  artifacts: DefectArtifact[];
+  project: string;
+  retries: number;
+  reportedAt: string;
+}
+
+export interface DefectContext {
+  url: string;
+  actual: string;
+  // Approved golden output of a negative case, compared instead of its description
+  golden?: string;
+  error?: string;
+  notes: string[];
+  artifacts: DefectArtifact[];
+  project: string;
+  retries: number;
+}
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low'];
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+export function inferSeverity(testCase: TestCase): Severity {
+  switch (testCase.type) {
+    case 'ui':
+      return 'critical';
+    case 'positive':
+      return testCase.lengthType === 'S' ? 'high' : 'medium';
+    case 'negative':
+      return 'low';
+  }
+}
+
+/**
+ * Sorts reports by severity, then by case id and browser project
+ */
+export function compareDefects(a: DefectReport, b: DefectReport): number {
+  return SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.id.localeCompare(b.id) || a.project.localeCompare(b.project);
+}
+
+function reproductionSteps(testCase: TestCase, url: string): string[] {
+  const steps = [
+    `Open ${url}`,
+    'Clear the Singlish input box',
+    `Type the input: ${testCase.input}`,
+    'Wait for the Sinhala output to stop changing',
+  ];
+
+  if (testCase.type === 'ui') {
+    steps.push('Watch the output update while typing, then clear the input and check the output empties');
+  } else {
+    steps.push('Compare the Sinhala output with the expected output');
+  }
+  return steps;
+}
+
+export function buildDefectReport(testCase: TestCase, context: DefectContext): DefectReport {
+  const actual = normalize(context.actual);
+  // Negative cases describe the expected behaviour, so only diff against their golden output
+  const exactExpected = testCase.type === 'negative' ? context.golden : normalize(testCase.expected);
+
+  return {
+    id: testCase.id,
+    title: `${testCase.id}: ${testCase.name}`,
+    severity: inferSeverity(testCase),
+    type: testCase.type,
+    lengthType: testCase.lengthType,
+    tags: testCase.tags ?? [],
+    url: context.url,
+    steps: reproductionSteps(testCase, context.url),
+    input: testCase.input,
+    expected: testCase.expected,
+    actual,
+    diff: exactExpected !== undefined && exactExpected !== actual ? formatDiffText(exactExpected, actual) : undefined,
+    error: context.error,
+    notes: context.notes,
+    artifacts: context.artifacts,
+    project: context.project,
+    retries: context.retries,
+    reportedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Report file name without extension, e.g. "Pos_Fun_0024-webkit" (one report per case and browser project)
+ */
+export function defectFileName(report: DefectReport): string {
+  return report.project ? `${report.id}-${report.project}` : report.id;
+}
+
+function fence(text: string): string {
+  return ['```', text, '```'].join('\n');
+}
+
+export function formatDefectMarkdown(report: DefectReport): string {
+  const lines = [
+    `# ${report.title}`,
+    '',
+    `**Severity:** ${report.severity}  `,
+    `**Type:** ${report.type} (${report.lengthType})  `,
+    `**Browser project:** ${report.project}  `,
+  ];
+  if (report.tags.length > 0) {
+    lines.push(`**Categories:** ${report.tags.join(', ')}  `);
+  }
+  if (report.retries > 0) {
+    lines.push(`**Retries:** failed on all ${report.retries + 1} attempts  `);
+  }
+
+  lines.push('', '## Steps to reproduce', '', ...report.steps.map((step, index) => `${index + 1}. ${step}`));
+  lines.push('', '## Input', '', fence(report.input));
+  lines.push('', '## Expected', '', fence(report.expected));
+  lines.push('', '## Actual', '', fence(report.actual || '(empty)'));
+
+  if (report.diff) {
+    lines.push('', '## Grapheme diff', '', fence(report.diff));
+  }
+  if (report.notes.length > 0) {
+    lines.push('', '## Notes', '', ...report.notes.map(note => `- ${note}`));
+  }
+  if (report.error) {
+    lines.push('', '## Failure', '', fence(report.error));
+  }
+  if (report.artifacts.length > 0) {
+    lines.push('', '## Attachments', '', ...report.artifacts.map(artifact => `- [${artifact.name}](${encodeURI(artifact.path)})`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Index of all reports, most severe first
+ */
+export function formatDefectIndex(reports: DefectReport[]): string {
+  const lines = [
+    `# Defect reports (${reports.length})`,
+    '',
+    '| Severity | Case | Browser | Type | Input | Actual |',
+    '|----------|------|---------|------|-------|--------|',
+    ...[...reports].sort(compareDefects).map(report =>
+      `| ${report.severity} | [${report.title.replace(/\|/g, '\\|')}](${defectFileName(report)}.md) | ${report.project} | ${report.type} ${report.lengthType} | ${report.input.replace(/\|/g, '\\|')} | ${(report.actual || '(empty)').replace(/\|/g, '\\|')} |`,
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,130 @@
+import { TestCase } from '../testData';
+import { GeneratedToken, joinTokens, isPhonetic } from './singlishGenerator';
+import { expectedLengthType } from './testDataLinter';
+import { transliterate } from './transliterator';
+
+/**
+ * Invariants, shrinking and TestCase candidates for the fuzz suite.
+ * Every generated input must produce non-empty output, Sinhala output for
+ * phonetic input, no page errors, and an empty output after clearing.
+ */
+
+export type InvariantKind = 'crash' | 'empty-output' | 'no-sinhala' | 'clear-not-empty';
+
+export interface FuzzObservation {
+  output: string;
+  // Output left after clearing the input
+  clearedOutput: string;
+  // Page errors and exceptions thrown while translating
+  errors: string[];
+}
+
+export interface InvariantViolation {
+  kind: InvariantKind;
+  message: string;
+}
+
+export interface ShrinkResult {
+  tokens: GeneratedToken[];
+  // Number of candidate inputs tried
+  attempts: number;
+}
+
+export function checkInvariants(tokens: GeneratedToken[], observation: FuzzObservation): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+
+  for (const error of observation.errors) {
+    violations.push({ kind: 'crash', message: error });
+  }
+  if (!observation.output.trim()) {
+    violations.push({ kind: 'empty-output', message: 'output is empty' });
+  } else if (isPhonetic(tokens) && !/[\u0D80-\u0DFF]/.test(observation.output)) {
+    violations.push({ kind: 'no-sinhala', message: `phonetic input produced no Sinhala: "${observation.output}"` });
+  }
+  if (observation.clearedOutput.trim()) {
+    violations.push({ kind: 'clear-not-empty', message: `output after clearing: "${observation.clearedOutput}"` });
+  }
+
+  return violations;
+}
+
+/**
+ * Smaller variants of the input: without one token, then without one syllable of a phonetic word
+ */
+function* shrinkCandidates(tokens: GeneratedToken[]): Generator<GeneratedToken[]> {
+  if (tokens.length > 1) {
+    for (let i = 0; i < tokens.length; i++) {
+      yield [...tokens.slice(0, i), ...tokens.slice(i + 1)];
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== 'phonetic' || token.syllables.length < 2) {
+      continue;
+    }
+    for (let j = 0; j < token.syllables.length; j++) {
+      const syllables = [...token.syllables.slice(0, j), ...token.syllables.slice(j + 1)];
+      yield [...tokens.slice(0, i), { ...token, text: syllables.join(''), syllables }, ...tokens.slice(i + 1)];
+    }
+  }
+}
+
+/**
+ * Greedily shrinks a failing input: takes the first smaller variant that still
+ * fails and repeats until no variant fails or `maxAttempts` inputs were tried
+ */
+export async function shrinkInput(
+  tokens: GeneratedToken[],
+  stillFails: (candidate: GeneratedToken[]) => Promise<boolean>,
+  maxAttempts = 30,
+): Promise<ShrinkResult> {
+  let current = tokens;
+  let attempts = 0;
+  let shrunk = true;
+
+  while (shrunk && attempts < maxAttempts) {
+    shrunk = false;
+    for (const candidate of shrinkCandidates(current)) {
+      if (attempts >= maxAttempts) {
+        break;
+      }
+      attempts++;
+      if (await stillFails(candidate)) {
+        current = candidate;
+        shrunk = true;
+        break;
+      }
+    }
+  }
+
+  return { tokens: current, attempts };
+}
+
+/**
+ * Number after the highest TestCase id number, for candidate ids
+ */
+export function nextCaseNumber(testCases: TestCase[]): number {
+  const numbers = testCases.map(testCase => Number(testCase.id.match(/_(\d+)$/)?.[1] ?? 0));
+  return Math.max(0, ...numbers) + 1;
+}
+
+/**
+ * A TestCase reproducing the failure; `expected` is the reference transliteration.
+ * Clearing failures become UI cases, everything else negative cases.
+ */
+export function toCandidateTestCase(tokens: GeneratedToken[], violations: InvariantViolation[], id: number, label: string): TestCase {
+  const input = joinTokens(tokens);
+  const type: TestCase['type'] = violations.every(violation => violation.kind === 'clear-not-empty') ? 'ui' : 'negative';
+  const prefix = type === 'ui' ? 'Pos_UI' : 'Neg_Fun';
+  const kinds = Array.from(new Set(violations.map(violation => violation.kind)));
+
+  return {
+    id: `${prefix}_${String(id).padStart(4, '0')}`,
+    name: `Fuzz ${label}: ${kinds.join(', ')}`,
+    type,
+    lengthType: expectedLengthType(input),
+    input,
+    expected: transliterate(input),
+  };
+}
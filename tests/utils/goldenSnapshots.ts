@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { TestInfo } from '@playwright/test';
+import { TestCase } from '../testData';
+import { TranslatorTarget, resolveTarget } from './target';
+
+/**
+ * Golden-output snapshots for cases whose `expected` is a description rather
+ * than an exact output (negative cases). The approved output of each case is
+ * stored per target, browser project and TestCase.id (see goldenKey), since engines
+ * and the mock may legitimately differ; a later run whose output differs fails with a diff.
+ *
+ * Follows Playwright's --update-snapshots setting:
+ * - missing (default): cases without a snapshot store their output, changed outputs fail
+ * - all / changed: changed outputs replace the stored snapshot
+ * - none: missing and changed snapshots both fail
+ *
+ * Tests only read the snapshot file; goldenSnapshotReporter writes new outputs of
+ * passing tests and accepted updates once at the end of the run.
+ * GOLDEN_SNAPSHOT_FILE overrides the file location.
+ */
+
+export interface GoldenEntry {
+  input: string;
+  output: string;
+  updatedAt: string;
+}
+
+export type GoldenSnapshots = Record<string, GoldenEntry>;
+
+export type GoldenStatus = 'unchanged' | 'new' | 'updated' | 'missing' | 'changed';
+
+export interface GoldenComparison {
+  status: GoldenStatus;
+  // Approved output, when the case has a snapshot for the same input
+  golden?: string;
+}
+
+export const GOLDEN_OUTPUT_ANNOTATION = 'golden-output';
+
+export const DEFAULT_GOLDEN_SNAPSHOT_FILE = path.resolve(__dirname, '..', 'snapshots', 'golden-outputs.json');
+
+/**
+ * Snapshot key, e.g. "live/chromium/Neg_Fun_0026"
+ */
+export function goldenKey(id: string, project: string, target: TranslatorTarget = resolveTarget()): string {
+  return `${target}/${project}/${id}`;
+}
+
+export function resolveGoldenSnapshotFile(): string {
+  return process.env.GOLDEN_SNAPSHOT_FILE ? path.resolve(process.env.GOLDEN_SNAPSHOT_FILE) : DEFAULT_GOLDEN_SNAPSHOT_FILE;
+}
+
+export function readGoldenSnapshots(file: string = resolveGoldenSnapshotFile()): GoldenSnapshots {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as GoldenSnapshots;
+}
+
+/**
+ * Writes the snapshots sorted by id so reviews only show the entries that changed
+ */
+export function writeGoldenSnapshots(snapshots: GoldenSnapshots, file: string = resolveGoldenSnapshotFile()) {
+  const sorted: GoldenSnapshots = {};
+  for (const id of Object.keys(snapshots).sort()) {
+    sorted[id] = snapshots[id];
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Compares an output with the approved one. A snapshot recorded for a different
+ * input counts as missing, since the case itself changed.
+ */
+export function compareGoldenOutput(
+  entry: GoldenEntry | undefined,
+  input: string,
+  output: string,
+  updateSnapshots: TestInfo['config']['updateSnapshots'],
+): GoldenComparison {
+  if (!entry || entry.input !== input) {
+    return { status: updateSnapshots === 'none' ? 'missing' : 'new' };
+  }
+  if (entry.output === output) {
+    return { status: 'unchanged', golden: entry.output };
+  }
+  const accept = updateSnapshots === 'all' || updateSnapshots === 'changed';
+  return { status: accept ? 'updated' : 'changed', golden: entry.output };
+}
+
+/**
+ * Compares the case's output with its snapshot and records the status for the reporter
+ */
+export function checkGoldenOutput(testInfo: TestInfo, testCase: TestCase, output: string): GoldenComparison {
+  const entry = readGoldenSnapshots()[goldenKey(testCase.id, testInfo.project.name)];
+  const comparison = compareGoldenOutput(entry, testCase.input, output, testInfo.config.updateSnapshots);
+  testInfo.annotations.push({ type: GOLDEN_OUTPUT_ANNOTATION, description: comparison.status });
+  return comparison;
+}
+
+/**
+ * Failure message for a missing or changed snapshot
+ */
+export function describeGoldenComparison(testCase: TestCase, comparison: GoldenComparison): string {
+  if (comparison.status === 'missing') {
+    return `No golden output for ${testCase.id}; record one with npm run test:update-snapshots`;
+  }
+  return `Output of ${testCase.id} changed since it was approved; review the diff and accept it with npm run test:update-snapshots`;
+}
@@ -0,0 +1,258 @@
+/**
+ * Grapheme-aware diff of Sinhala strings for failing test reports.
+ * Both strings are split into Sinhala grapheme clusters and aligned; clusters
+ * that were inserted, removed or changed are listed with their code points and
+ * Unicode names so invisible differences (ZWJ, virama, vowel signs) show up.
+ */
+
+import { splitGraphemes } from './graphemes';
+
+export type DiffKind = 'equal' | 'insert' | 'remove' | 'change';
+
+export interface DiffOp {
+  kind: DiffKind;
+  // Cluster from the expected string (absent for inserts)
+  expected?: string;
+  // Cluster from the actual string (absent for removals)
+  actual?: string;
+}
+
+// Unicode names for the Sinhala block and the joiners
+const CODE_POINT_NAMES: Record<number, string> = {
+  0x0D81: 'SINHALA SIGN CANDRABINDU',
+  0x0D82: 'SINHALA SIGN ANUSVARAYA',
+  0x0D83: 'SINHALA SIGN VISARGAYA',
+  0x0D85: 'SINHALA LETTER AYANNA',
+  0x0D86: 'SINHALA LETTER AAYANNA',
+  0x0D87: 'SINHALA LETTER AEYANNA',
+  0x0D88: 'SINHALA LETTER AEEYANNA',
+  0x0D89: 'SINHALA LETTER IYANNA',
+  0x0D8A: 'SINHALA LETTER IIYANNA',
+  0x0D8B: 'SINHALA LETTER UYANNA',
+  0x0D8C: 'SINHALA LETTER UUYANNA',
+  0x0D8D: 'SINHALA LETTER IRUYANNA',
+  0x0D8E: 'SINHALA LETTER IRUUYANNA',
+  0x0D8F: 'SINHALA LETTER ILUYANNA',
+  0x0D90: 'SINHALA LETTER ILUUYANNA',
+  0x0D91: 'SINHALA LETTER EYANNA',
+  0x0D92: 'SINHALA LETTER EEYANNA',
+  0x0D93: 'SINHALA LETTER AIYANNA',
+  0x0D94: 'SINHALA LETTER OYANNA',
+  0x0D95: 'SINHALA LETTER OOYANNA',
+  0x0D96: 'SINHALA LETTER AUYANNA',
+  0x0D9A: 'SINHALA LETTER ALPAPRAANA KAYANNA',
+  0x0D9B: 'SINHALA LETTER MAHAAPRAANA KAYANNA',
+  0x0D9C: 'SINHALA LETTER ALPAPRAANA GAYANNA',
+  0x0D9D: 'SINHALA LETTER MAHAAPRAANA GAYANNA',
+  0x0D9E: 'SINHALA LETTER KANTAJA NAASIKYAYA',
+  0x0D9F: 'SINHALA LETTER SANYAKA GAYANNA',
+  0x0DA0: 'SINHALA LETTER ALPAPRAANA CAYANNA',
+  0x0DA1: 'SINHALA LETTER MAHAAPRAANA CAYANNA',
+  0x0DA2: 'SINHALA LETTER ALPAPRAANA JAYANNA',
+  0x0DA3: 'SINHALA LETTER MAHAAPRAANA JAYANNA',
+  0x0DA4: 'SINHALA LETTER TAALUJA NAASIKYAYA',
+  0x0DA5: 'SINHALA LETTER TAALUJA SANYOOGA NAAKSIKYAYA',
+  0x0DA6: 'SINHALA LETTER SANYAKA JAYANNA',
+  0x0DA7: 'SINHALA LETTER ALPAPRAANA TTAYANNA',
+  0x0DA8: 'SINHALA LETTER MAHAAPRAANA TTAYANNA',
+  0x0DA9: 'SINHALA LETTER ALPAPRAANA DDAYANNA',
+  0x0DAA: 'SINHALA LETTER MAHAAPRAANA DDAYANNA',
+  0x0DAB: 'SINHALA LETTER MUURDHAJA NAYANNA',
+  0x0DAC: 'SINHALA LETTER SANYAKA DDAYANNA',
+  0x0DAD: 'SINHALA LETTER ALPAPRAANA TAYANNA',
+  0x0DAE: 'SINHALA LETTER MAHAAPRAANA TAYANNA',
+  0x0DAF: 'SINHALA LETTER ALPAPRAANA DAYANNA',
+  0x0DB0: 'SINHALA LETTER MAHAAPRAANA DAYANNA',
+  0x0DB1: 'SINHALA LETTER DANTAJA NAYANNA',
+  0x0DB3: 'SINHALA LETTER SANYAKA DAYANNA',
+  0x0DB4: 'SINHALA LETTER ALPAPRAANA PAYANNA',
+  0x0DB5: 'SINHALA LETTER MAHAAPRAANA PAYANNA',
+  0x0DB6: 'SINHALA LETTER ALPAPRAANA BAYANNA',
+  0x0DB7: 'SINHALA LETTER MAHAAPRAANA BAYANNA',
+  0x0DB8: 'SINHALA LETTER MAYANNA',
+  0x0DB9: 'SINHALA LETTER AMBA BAYANNA',
+  0x0DBA: 'SINHALA LETTER YAYANNA',
+  0x0DBB: 'SINHALA LETTER RAYANNA',
+  0x0DBD: 'SINHALA LETTER DANTAJA LAYANNA',
+  0x0DC0: 'SINHALA LETTER VAYANNA',
+  0x0DC1: 'SINHALA LETTER TAALUJA SAYANNA',
+  0x0DC2: 'SINHALA LETTER MUURDHAJA SAYANNA',
+  0x0DC3: 'SINHALA LETTER DANTAJA SAYANNA',
+  0x0DC4: 'SINHALA LETTER HAYANNA',
+  0x0DC5: 'SINHALA LETTER MUURDHAJA LAYANNA',
+  0x0DC6: 'SINHALA LETTER FAYANNA',
+  0x0DCA: 'SINHALA SIGN AL-LAKUNA',
+  0x0DCF: 'SINHALA VOWEL SIGN AELA-PILLA',
+  0x0DD0: 'SINHALA VOWEL SIGN KETTI AEDA-PILLA',
+  0x0DD1: 'SINHALA VOWEL SIGN DIGA AEDA-PILLA',
+  0x0DD2: 'SINHALA VOWEL SIGN KETTI IS-PILLA',
+  0x0DD3: 'SINHALA VOWEL SIGN DIGA IS-PILLA',
+  0x0DD4: 'SINHALA VOWEL SIGN KETTI PAA-PILLA',
+  0x0DD6: 'SINHALA VOWEL SIGN DIGA PAA-PILLA',
+  0x0DD8: 'SINHALA VOWEL SIGN GAETTA-PILLA',
+  0x0DD9: 'SINHALA VOWEL SIGN KOMBUVA',
+  0x0DDA: 'SINHALA VOWEL SIGN DIGA KOMBUVA',
+  0x0DDB: 'SINHALA VOWEL SIGN KOMBU DEKA',
+  0x0DDC: 'SINHALA VOWEL SIGN KOMBUVA HAA AELA-PILLA',
+  0x0DDD: 'SINHALA VOWEL SIGN KOMBUVA HAA DIGA AELA-PILLA',
+  0x0DDE: 'SINHALA VOWEL SIGN KOMBUVA HAA GAYANUKITTA',
+  0x0DDF: 'SINHALA VOWEL SIGN GAYANUKITTA',
+  0x0DE6: 'SINHALA LITH DIGIT ZERO',
+  0x0DE7: 'SINHALA LITH DIGIT ONE',
+  0x0DE8: 'SINHALA LITH DIGIT TWO',
+  0x0DE9: 'SINHALA LITH DIGIT THREE',
+  0x0DEA: 'SINHALA LITH DIGIT FOUR',
+  0x0DEB: 'SINHALA LITH DIGIT FIVE',
+  0x0DEC: 'SINHALA LITH DIGIT SIX',
+  0x0DED: 'SINHALA LITH DIGIT SEVEN',
+  0x0DEE: 'SINHALA LITH DIGIT EIGHT',
+  0x0DEF: 'SINHALA LITH DIGIT NINE',
+  0x0DF2: 'SINHALA VOWEL SIGN DIGA GAETTA-PILLA',
+  0x0DF3: 'SINHALA VOWEL SIGN DIGA GAYANUKITTA',
+  0x0DF4: 'SINHALA PUNCTUATION KUNDDALIYA',
+  0x200C: 'ZERO WIDTH NON-JOINER',
+  0x200D: 'ZERO WIDTH JOINER',
+  0x0020: 'SPACE',
+};
+
+/**
+ * "U+0D9A SINHALA LETTER ALPAPRAANA KAYANNA" for each code point in the cluster
+ */
+export function describeCodePoints(cluster: string): string[] {
+  return Array.from(cluster).map(char => {
+    const codePoint = char.codePointAt(0)!;
+    const hex = codePoint.toString(16).toUpperCase().padStart(4, '0');
+    const name = CODE_POINT_NAMES[codePoint] ?? (/[\x21-\x7E]/.test(char) ? `'${char}'` : 'UNKNOWN');
+    return `U+${hex} ${name}`;
+  });
+}
+
+/**
+ * Aligns the grapheme clusters of both strings with a minimal edit script
+ */
+export function diffGraphemes(expected: string, actual: string): DiffOp[] {
+  return alignSequences(splitGraphemes(expected), splitGraphemes(actual));
+}
+
+/**
+ * Minimal edit script between two sequences (grapheme clusters, syllables, ...)
+ */
+export function alignSequences(a: string[], b: string[]): DiffOp[] {
+  // distances[i][j] = edits to turn a[i..] into b[j..]
+  const distances = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length; i >= 0; i--) {
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length) {
+        distances[i][j] = b.length - j;
+      } else if (j === b.length) {
+        distances[i][j] = a.length - i;
+      } else {
+        distances[i][j] = Math.min(
+          distances[i + 1][j + 1] + (a[i] === b[j] ? 0 : 1),
+          distances[i + 1][j] + 1,
+          distances[i][j + 1] + 1,
+        );
+      }
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && distances[i][j] === distances[i + 1][j + 1] + (a[i] === b[j] ? 0 : 1)) {
+      ops.push({ kind: a[i] === b[j] ? 'equal' : 'change', expected: a[i], actual: b[j] });
+      i++;
+      j++;
+    } else if (i < a.length && distances[i][j] === distances[i + 1][j] + 1) {
+      ops.push({ kind: 'remove', expected: a[i] });
+      i++;
+    } else {
+      ops.push({ kind: 'insert', actual: b[j] });
+      j++;
+    }
+  }
+
+  return ops;
+}
+
+/**
+ * Plain-text diff: both strings, then one entry per differing cluster
+ */
+export function formatDiffText(expected: string, actual: string, ops: DiffOp[] = diffGraphemes(expected, actual)): string {
+  const lines = [`Expected: ${expected}`, `Actual:   ${actual}`, ''];
+  let position = 0;
+
+  for (const op of ops) {
+    position++;
+    if (op.kind === 'equal') {
+      continue;
+    }
+
+    if (op.kind === 'change') {
+      lines.push(`#${position} changed "${op.expected}" → "${op.actual}"`);
+      lines.push(`    expected: ${describeCodePoints(op.expected!).join(', ')}`);
+      lines.push(`    actual:   ${describeCodePoints(op.actual!).join(', ')}`);
+    } else if (op.kind === 'remove') {
+      lines.push(`#${position} removed "${op.expected}"`);
+      lines.push(`    expected: ${describeCodePoints(op.expected!).join(', ')}`);
+    } else {
+      lines.push(`#${position} inserted "${op.actual}"`);
+      lines.push(`    actual:   ${describeCodePoints(op.actual!).join(', ')}`);
+    }
+  }
+
+  if (lines.length === 3) {
+    lines.push('No grapheme differences');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone HTML page with the aligned clusters highlighted and a code point table
+ */
+export function formatDiffHtml(expected: string, actual: string, ops: DiffOp[] = diffGraphemes(expected, actual)): string {
+  const cell = (cluster: string | undefined, kind: DiffKind) =>
+    `<td class="${kind}">${cluster === undefined ? '' : escapeHtml(cluster === ' ' ? '␠' : cluster)}</td>`;
+  const codePoints = (cluster: string | undefined) =>
+    cluster === undefined ? '' : describeCodePoints(cluster).map(escapeHtml).join('<br>');
+
+  const rows = ops
+    .filter(op => op.kind !== 'equal')
+    .map(op => `<tr class="${op.kind}"><td>${op.kind}</td><td>${escapeHtml(op.expected ?? '')}</td><td>${codePoints(op.expected)}</td><td>${escapeHtml(op.actual ?? '')}</td><td>${codePoints(op.actual)}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: sans-serif; }
+  table { border-collapse: collapse; margin-bottom: 1rem; }
+  td, th { border: 1px solid #ccc; padding: 0.25rem 0.5rem; font-size: 1.2rem; vertical-align: top; }
+  td:empty { background: #f4f4f4; }
+  .insert { background: #d4f7d4; }
+  .remove { background: #f7d4d4; }
+  .change { background: #f7ecc4; }
+  .codes td { font-size: 0.8rem; font-family: monospace; }
+</style>
+</head>
+<body>
+<h3>Aligned grapheme clusters</h3>
+<table>
+<tr><th>Expected</th>${ops.map(op => cell(op.expected, op.kind)).join('')}</tr>
+<tr><th>Actual</th>${ops.map(op => cell(op.actual, op.kind)).join('')}</tr>
+</table>
+<h3>Differing clusters</h3>
+<table class="codes">
+<tr><th>Change</th><th>Expected</th><th>Code points</th><th>Actual</th><th>Code points</th></tr>
+${rows || '<tr><td colspan="5">No grapheme differences</td></tr>'}
+</table>
+</body>
+</html>`;
+}
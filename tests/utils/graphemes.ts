@@ -0,0 +1,54 @@
+/**
+ * Sinhala-aware grapheme cluster splitting.
+ * A cluster is a base character followed by its combining marks (vowel signs,
+ * virama, anusvara/visarga, ZWJ/ZWNJ); a virama + ZWJ also pulls in the next
+ * consonant so conjuncts such as yansaya (්‍ය), rakaransaya (්‍ර) and repaya stay whole.
+ */
+
+const VIRAMA = '\u0DCA';
+const ZWJ = '\u200D';
+
+const COMBINING = /^(?:[\u0D81-\u0D83\u0DCA\u0DCF-\u0DDF\u0DF2\u0DF3\u200C\u200D]|\p{M})$/u;
+
+/**
+ * Splits text into grapheme clusters
+ */
+export function splitGraphemes(text: string): string[] {
+  const clusters: string[] = [];
+  let current = '';
+
+  for (const char of Array.from(text)) {
+    if (current && (COMBINING.test(char) || current.endsWith(VIRAMA + ZWJ))) {
+      current += char;
+    } else {
+      if (current) {
+        clusters.push(current);
+      }
+      current = char;
+    }
+  }
+
+  if (current) {
+    clusters.push(current);
+  }
+
+  return clusters;
+}
+
+/**
+ * Levenshtein distance between two sequences (graphemes, tokens, ...)
+ */
+export function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { TestInfo } from '@playwright/test';
+
+/**
+ * HAR record-and-replay of the translator's network traffic.
+ * - off: normal network access (default)
+ * - record: every test saves the page assets and translation requests it made to its own HAR file
+ * - replay: every request is served from the test's HAR file; anything not recorded is aborted
+ *
+ * HAR_MODE selects the mode and HAR_DIR the recordings directory (default tests/recordings);
+ * both can also be set in playwright.config.ts through the `harMode`/`harDir` options.
+ */
+
+export type HarMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_HAR_DIR = path.resolve(__dirname, '..', 'recordings');
+
+export function resolveHarMode(): HarMode {
+  const value = (process.env.HAR_MODE || 'off').trim().toLowerCase();
+
+  if (value !== 'off' && value !== 'record' && value !== 'replay') {
+    throw new Error(`Unknown HAR_MODE "${value}" (expected "off", "record" or "replay")`);
+  }
+
+  return value;
+}
+
+export function resolveHarDir(): string {
+  return process.env.HAR_DIR ? path.resolve(process.env.HAR_DIR) : DEFAULT_HAR_DIR;
+}
+
+function slugify(text: string): string {
+  return text.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 120);
+}
+
+/**
+ * Recording for a test: <dir>/<project>/<spec>/<test title>.har
+ */
+export function harFileFor(testInfo: TestInfo, dir: string = resolveHarDir()): string {
+  const spec = path.basename(testInfo.file).replace(/\.spec\.ts$/, '');
+  return path.join(dir, slugify(testInfo.project.name) || 'default', spec, `${slugify(testInfo.title)}.har`);
+}
+
+/**
+ * Fails with a hint when replaying a test that was never recorded
+ */
+export function assertRecordingExists(file: string, testInfo: TestInfo) {
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No HAR recording for "${testInfo.title}" at ${path.relative(process.cwd(), file)}. ` +
+      'Record it first with HAR_MODE=record (npm run test:record).',
+    );
+  }
+}
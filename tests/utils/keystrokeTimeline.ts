@@ -0,0 +1,145 @@
+import { Page, Locator } from '@playwright/test';
+
+/**
+ * Keystroke-level typing for the UI suite: types the input one character at a
+ * time, reads the output after every keystroke and checks that the output
+ * updates incrementally.
+ *
+ * UI_INPUT_MODE selects how UI cases enter their input:
+ * - keystroke: character by character with a timeline (default)
+ * - fill: a single fill() call
+ */
+
+export type UiInputMode = 'keystroke' | 'fill';
+
+export interface KeystrokeSample {
+  // 1-based keystroke number
+  index: number;
+  char: string;
+  typed: string;
+  output: string;
+  elapsedMs: number;
+}
+
+export interface TimelineAnalysis {
+  issues: string[];
+  syllables: string[];
+}
+
+export function resolveUiInputMode(): UiInputMode {
+  const value = (process.env.UI_INPUT_MODE || 'keystroke').trim().toLowerCase();
+
+  if (value !== 'keystroke' && value !== 'fill') {
+    throw new Error(`Unknown UI_INPUT_MODE "${value}" (expected "keystroke" or "fill")`);
+  }
+
+  return value;
+}
+
+/**
+ * Types text into the input one character at a time and samples the output
+ * after each keystroke once `waitForOutput` resolves; `afterLastKeystroke` runs right
+ * after the final character
+ */
+export async function typeWithTimeline(
+  page: Page,
+  inputLocator: Locator,
+  text: string,
+  readOutput: () => Promise<string>,
+  waitForOutput: () => Promise<void> = () => page.waitForTimeout(200),
+  afterLastKeystroke?: () => Promise<void>,
+): Promise<KeystrokeSample[]> {
+  const samples: KeystrokeSample[] = [];
+  const start = Date.now();
+  const chars = Array.from(text);
+  let typed = '';
+
+  await inputLocator.focus();
+
+  for (const [index, char] of chars.entries()) {
+    await page.keyboard.type(char);
+    typed += char;
+    if (index === chars.length - 1 && afterLastKeystroke) {
+      await afterLastKeystroke();
+    }
+    await waitForOutput();
+
+    samples.push({
+      index: samples.length + 1,
+      char,
+      typed,
+      output: await readOutput(),
+      elapsedMs: Date.now() - start,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Splits Singlish into syllables: consonants + vowels, trailing consonants, or whitespace
+ */
+export function splitSyllables(text: string): string[] {
+  return text.match(/[^aeiou\s]*[aeiou]+|[^aeiou\s]+|\s+/gi) || [];
+}
+
+/**
+ * Checks a timeline for incremental behaviour:
+ * - the output changes once each syllable is complete
+ * - the output never falls back to an earlier, already replaced value (stale text)
+ * - the final output matches the expected value
+ */
+export function analyzeTimeline(samples: KeystrokeSample[], input: string, expected: string): TimelineAnalysis {
+  const issues: string[] = [];
+  const syllables = splitSyllables(input);
+
+  // Output at the end of every non-space syllable must differ from the previous one
+  let position = 0;
+  let previousOutput = '';
+  for (const syllable of syllables) {
+    position += Array.from(syllable).length;
+    if (!syllable.trim()) {
+      continue;
+    }
+
+    const sample = samples[position - 1];
+    if (sample && sample.output === previousOutput) {
+      issues.push(`output did not change after syllable "${syllable}" (keystroke ${sample.index}, output "${sample.output}")`);
+    }
+    if (sample) {
+      previousOutput = sample.output;
+    }
+  }
+
+  // Once the output moves away from a value it must not return to it
+  const replaced = new Set<string>();
+  for (let i = 1; i < samples.length; i++) {
+    const before = samples[i - 1].output;
+    const current = samples[i].output;
+    if (current !== before) {
+      replaced.add(before);
+      if (replaced.has(current)) {
+        issues.push(`output regressed to stale text "${current}" at keystroke ${samples[i].index} ("${samples[i].typed}")`);
+      }
+    }
+  }
+
+  const finalOutput = samples.length > 0 ? samples[samples.length - 1].output : '';
+  if (finalOutput !== expected) {
+    issues.push(`final output "${finalOutput}" does not match expected "${expected}"`);
+  }
+
+  return { issues, syllables };
+}
+
+/**
+ * Plain-text table of the timeline for the report attachment
+ */
+export function formatTimeline(samples: KeystrokeSample[]): string {
+  const lines = ['#    ms     key  typed → output'];
+  for (const sample of samples) {
+    const key = sample.char === ' ' ? '␠' : sample.char;
+    lines.push(`${String(sample.index).padEnd(4)} ${String(sample.elapsedMs).padEnd(6)} ${key.padEnd(4)} ${sample.typed} → ${sample.output}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,144 @@
+import { Page, Locator } from '@playwright/test';
+import { TestCase } from '../testData';
+
+/**
+ * Translation latency instrumentation.
+ * A probe attached to the resolved output element records when the output last
+ * changed; the latency of a case is the time from its last keystroke to that last
+ * change, i.e. until the output reached the value it settled on. Changes elsewhere
+ * on the page (ads, counters, animations) are not counted.
+ */
+
+interface LatencyProbe {
+  inputAt: number;
+  lastChange: number;
+  // Stops watching the output element
+  stop: () => void;
+}
+
+declare global {
+  interface Window {
+    __latencyProbe?: LatencyProbe;
+  }
+}
+
+export type LatencyBudgets = Record<TestCase['lengthType'], number>;
+
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+// p95 budgets in milliseconds per input length type (the performance reporter's defaults)
+export const DEFAULT_LATENCY_BUDGETS: LatencyBudgets = {
+  S: 2000,
+  M: 3000,
+  L: 5000,
+};
+
+/**
+ * Attaches the probe to the output element (replacing an earlier probe); call before entering the input
+ */
+export async function startLatencyProbe(output: Locator) {
+  await output.evaluate(element => {
+    window.__latencyProbe?.stop();
+
+    const probe: LatencyProbe = { inputAt: 0, lastChange: 0, stop: () => {} };
+    window.__latencyProbe = probe;
+    const recordChange = () => {
+      const now = performance.now();
+      if (probe.inputAt > 0 && now >= probe.inputAt) {
+        probe.lastChange = now;
+      }
+    };
+
+    if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+      // Scripted value changes do not mutate the DOM, so compare the value every frame
+      let value = element.value;
+      let frame = 0;
+      const poll = () => {
+        if (element.value !== value) {
+          value = element.value;
+          recordChange();
+        }
+        frame = requestAnimationFrame(poll);
+      };
+      frame = requestAnimationFrame(poll);
+      probe.stop = () => cancelAnimationFrame(frame);
+    } else {
+      const observer = new MutationObserver(recordChange);
+      observer.observe(element, { childList: true, characterData: true, subtree: true });
+      probe.stop = () => observer.disconnect();
+    }
+  });
+}
+
+/**
+ * Marks the moment the last keystroke was entered
+ */
+export async function markInputComplete(page: Page) {
+  await page.evaluate(() => {
+    if (window.__latencyProbe) {
+      window.__latencyProbe.inputAt = performance.now();
+      window.__latencyProbe.lastChange = 0;
+    }
+  });
+}
+
+/**
+ * Milliseconds from the last keystroke to the last output change, or null
+ * when no output change was seen after the input was completed
+ */
+export async function readLatency(page: Page): Promise<number | null> {
+  return page.evaluate(() => {
+    const probe = window.__latencyProbe;
+    if (!probe || !probe.inputAt || !probe.lastChange) {
+      return null;
+    }
+    return Math.round(probe.lastChange - probe.inputAt);
+  });
+}
+
+/**
+ * Nearest-rank percentile of a list of samples
+ */
+export function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export function summarizeLatencies(samples: number[]): LatencyStats {
+  return {
+    count: samples.length,
+    p50: percentile(samples, 50),
+    p95: percentile(samples, 95),
+    max: samples.length > 0 ? Math.max(...samples) : 0,
+  };
+}
+
+/**
+ * Budgets from LATENCY_BUDGETS ("S=2000,M=3000,L=5000"), falling back to the given defaults
+ */
+export function resolveLatencyBudgets(defaults: LatencyBudgets = DEFAULT_LATENCY_BUDGETS): LatencyBudgets {
+  const budgets = { ...defaults };
+  const value = process.env.LATENCY_BUDGETS;
+  if (!value) {
+    return budgets;
+  }
+
+  for (const entry of value.split(',')) {
+    const [key, ms] = entry.split('=').map(part => part.trim());
+    if ((key !== 'S' && key !== 'M' && key !== 'L') || Number.isNaN(Number(ms))) {
+      throw new Error(`Invalid LATENCY_BUDGETS entry "${entry}" (expected e.g. S=2000)`);
+    }
+    budgets[key] = Number(ms);
+  }
+
+  return budgets;
+}
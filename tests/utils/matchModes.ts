@@ -0,0 +1,154 @@
+import { TestCase } from '../testData';
+import { splitGraphemes, editDistance } from './graphemes';
+
+/**
+ * How a positive case's output is compared with its expected value.
+ * - exact: strings are identical (after whitespace normalization)
+ * - nfc: identical after Unicode NFC normalization
+ * - edit-distance[:n]: at most n grapheme-level edits apart (default 1)
+ * - token[:ratio]: at least `ratio` of the space-separated tokens match in place (default 1)
+ * - preserve-whitespace: identical including spaces and line breaks, compared line by line;
+ *   the output is read with its whitespace intact (see extractTranslationText)
+ *
+ * Selected per case with `matchMode`, globally with MATCH_MODE, otherwise exact.
+ */
+
+export type MatchModeKind = 'exact' | 'nfc' | 'edit-distance' | 'token' | 'preserve-whitespace';
+
+export interface MatchMode {
+  kind: MatchModeKind;
+  threshold?: number;
+}
+
+export interface MatchResult {
+  mode: MatchMode;
+  passed: boolean;
+  // Similarity in [0, 1]; 1 means identical
+  score: number;
+  detail: string;
+}
+
+const MATCH_MODE_KINDS: MatchModeKind[] = ['exact', 'nfc', 'edit-distance', 'token', 'preserve-whitespace'];
+
+const DEFAULT_THRESHOLDS: Partial<Record<MatchModeKind, number>> = {
+  'edit-distance': 1,
+  token: 1,
+};
+
+/**
+ * Parses "kind" or "kind:threshold"; throws on unknown kinds or bad thresholds
+ */
+export function parseMatchMode(value: string): MatchMode {
+  const [rawKind, rawThreshold] = value.split(':').map(part => part.trim());
+  const kind = rawKind as MatchModeKind;
+
+  if (!MATCH_MODE_KINDS.includes(kind)) {
+    throw new Error(`Unknown match mode "${rawKind}" (expected one of ${MATCH_MODE_KINDS.join(', ')})`);
+  }
+
+  if (rawThreshold === undefined || rawThreshold === '') {
+    return DEFAULT_THRESHOLDS[kind] === undefined ? { kind } : { kind, threshold: DEFAULT_THRESHOLDS[kind] };
+  }
+
+  const threshold = Number(rawThreshold);
+  if (DEFAULT_THRESHOLDS[kind] === undefined || Number.isNaN(threshold) || threshold < 0 || (kind === 'token' && threshold > 1)) {
+    throw new Error(`Invalid threshold "${rawThreshold}" for match mode "${kind}"`);
+  }
+
+  return { kind, threshold };
+}
+
+/**
+ * Match mode for a case: its own `matchMode`, else MATCH_MODE, else exact
+ */
+export function resolveMatchMode(testCase: TestCase): MatchMode {
+  return parseMatchMode(testCase.matchMode || process.env.MATCH_MODE || 'exact');
+}
+
+/**
+ * Whether the mode compares the raw output (spaces and line breaks intact) rather than the normalized one
+ */
+export function preservesWhitespace(mode: MatchMode): boolean {
+  return mode.kind === 'preserve-whitespace';
+}
+
+/**
+ * Compares actual and expected output under the given mode
+ */
+export function matchOutput(actual: string, expected: string, mode: MatchMode): MatchResult {
+  switch (mode.kind) {
+    case 'exact': {
+      const passed = actual === expected;
+      return { mode, passed, score: passed ? 1 : 0, detail: passed ? 'identical' : 'strings differ' };
+    }
+
+    case 'nfc': {
+      const passed = actual.normalize('NFC') === expected.normalize('NFC');
+      const note = passed && actual !== expected ? 'identical after NFC (raw code points differ)' : 'identical after NFC';
+      return { mode, passed, score: passed ? 1 : 0, detail: passed ? note : 'strings differ after NFC' };
+    }
+
+    case 'edit-distance': {
+      const actualGraphemes = splitGraphemes(actual.normalize('NFC'));
+      const expectedGraphemes = splitGraphemes(expected.normalize('NFC'));
+      const distance = editDistance(actualGraphemes, expectedGraphemes);
+      const longest = Math.max(actualGraphemes.length, expectedGraphemes.length) || 1;
+      const threshold = mode.threshold ?? 1;
+      return {
+        mode,
+        passed: distance <= threshold,
+        score: 1 - distance / longest,
+        detail: `${distance} grapheme edit(s), allowed ${threshold}`,
+      };
+    }
+
+    case 'token': {
+      const actualTokens = actual.normalize('NFC').split(' ').filter(Boolean);
+      const expectedTokens = expected.normalize('NFC').split(' ').filter(Boolean);
+      const total = Math.max(actualTokens.length, expectedTokens.length) || 1;
+      const mismatched = expectedTokens
+        .map((token, index) => ({ token, index }))
+        .filter(({ token, index }) => actualTokens[index] !== token);
+      const extra = Math.max(actualTokens.length - expectedTokens.length, 0);
+      const score = (total - mismatched.length - extra) / total;
+      const threshold = mode.threshold ?? 1;
+      const mismatchText = mismatched.map(({ token, index }) => `#${index + 1} "${actualTokens[index] ?? ''}" ≠ "${token}"`).join(', ');
+      return {
+        mode,
+        passed: score >= threshold,
+        score,
+        detail: mismatched.length || extra
+          ? `${total - mismatched.length - extra}/${total} tokens match${mismatchText ? `: ${mismatchText}` : ''}${extra ? `, ${extra} extra` : ''}`
+          : `${total}/${total} tokens match`,
+      };
+    }
+
+    case 'preserve-whitespace': {
+      const actualLines = actual.split('\n');
+      const expectedLines = expected.split('\n');
+      const total = Math.max(actualLines.length, expectedLines.length);
+      const mismatched = Array.from({ length: total }, (_, index) => index)
+        .filter(index => actualLines[index] !== expectedLines[index]);
+      const lineCount = actualLines.length === expectedLines.length
+        ? ''
+        : `${actualLines.length} line(s), expected ${expectedLines.length}; `;
+      const mismatchText = mismatched
+        .map(index => `line ${index + 1} ${JSON.stringify(actualLines[index] ?? '')} ≠ ${JSON.stringify(expectedLines[index] ?? '')}`)
+        .join(', ');
+      return {
+        mode,
+        passed: mismatched.length === 0,
+        score: (total - mismatched.length) / total,
+        detail: mismatched.length ? `${lineCount}${mismatchText}` : `${total}/${total} lines identical`,
+      };
+    }
+  }
+}
+
+/**
+ * One-line description such as "edit-distance:1 passed (score 0.95): 1 grapheme edit(s), allowed 1"
+ */
+export function describeMatch(result: MatchResult): string {
+  const name = result.mode.threshold === undefined ? result.mode.kind : `${result.mode.kind}:${result.mode.threshold}`;
+  return `${name} ${result.passed ? 'passed' : 'failed'} (score ${result.score.toFixed(2)}): ${result.detail}`;
+}
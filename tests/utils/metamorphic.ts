@@ -0,0 +1,131 @@
+import { TestCase } from '../testData';
+
+/**
+ * Metamorphic relations between translator outputs.
+ * Follow-up inputs are derived from existing TestCase inputs; instead of a
+ * fixed expected value, the follow-up output must relate to the source outputs,
+ * e.g. translate(a + " " + b) = translate(a) + " " + translate(b).
+ */
+
+export interface MetamorphicRelation {
+  name: string;
+  description: string;
+  // Number of source inputs the relation combines
+  arity: 1 | 2;
+  followUp(sources: string[]): string;
+  // Output the follow-up input should produce, given the source outputs
+  expectedOutput(sourceOutputs: string[]): string;
+}
+
+export interface MetamorphicCase {
+  relation: MetamorphicRelation;
+  sources: TestCase[];
+  followUp: string;
+}
+
+export interface RelationResult {
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+// English words the translator keeps as they are (see the mixed-language cases in testData.ts)
+const ENGLISH_PREFIX = 'traffic';
+const ENGLISH_SUFFIX = 'late';
+
+export const METAMORPHIC_RELATIONS: MetamorphicRelation[] = [
+  {
+    name: 'concatenation',
+    description: 'translate(a + " " + b) = translate(a) + " " + translate(b)',
+    arity: 2,
+    followUp: ([a, b]) => `${a} ${b}`,
+    expectedOutput: ([a, b]) => `${a} ${b}`,
+  },
+  {
+    name: 'extra-whitespace',
+    description: 'extra spaces between and around words do not change the collapsed output',
+    arity: 1,
+    followUp: ([a]) => `  ${a.trim().split(/\s+/).join('   ')}  `,
+    expectedOutput: ([a]) => a,
+  },
+  {
+    name: 'trailing-period',
+    description: 'translate(a + ".") = translate(a) + "."',
+    arity: 1,
+    followUp: ([a]) => `${a}.`,
+    expectedOutput: ([a]) => `${a}.`,
+  },
+  {
+    name: 'trailing-question-mark',
+    description: 'translate(a + "?") = translate(a) + "?"',
+    arity: 1,
+    followUp: ([a]) => `${a}?`,
+    expectedOutput: ([a]) => `${a}?`,
+  },
+  {
+    name: 'leading-english',
+    description: `translate("${ENGLISH_PREFIX} " + a) = "${ENGLISH_PREFIX} " + translate(a)`,
+    arity: 1,
+    followUp: ([a]) => `${ENGLISH_PREFIX} ${a}`,
+    expectedOutput: ([a]) => `${ENGLISH_PREFIX} ${a}`,
+  },
+  {
+    name: 'trailing-english',
+    description: `translate(a + " ${ENGLISH_SUFFIX}") = translate(a) + " ${ENGLISH_SUFFIX}"`,
+    arity: 1,
+    followUp: ([a]) => `${a} ${ENGLISH_SUFFIX}`,
+    expectedOutput: ([a]) => `${a} ${ENGLISH_SUFFIX}`,
+  },
+];
+
+/**
+ * Short positive inputs that end in a letter (so appended punctuation/words stay separate), one per distinct input
+ */
+export function metamorphicSources(testCases: TestCase[]): TestCase[] {
+  const seen = new Set<string>();
+  return testCases.filter(testCase => {
+    const input = testCase.input.trim();
+    if (testCase.type !== 'positive' || testCase.lengthType !== 'S' || !/[a-z]$/i.test(input) || seen.has(input)) {
+      return false;
+    }
+    seen.add(input);
+    return true;
+  });
+}
+
+/**
+ * Follow-up cases for every relation: single-source relations use the first `limit`
+ * sources, concatenation pairs neighbouring sources
+ */
+export function deriveMetamorphicCases(testCases: TestCase[], limit: number): MetamorphicCase[] {
+  const sources = metamorphicSources(testCases);
+  const cases: MetamorphicCase[] = [];
+
+  for (const relation of METAMORPHIC_RELATIONS) {
+    const groups = relation.arity === 2
+      ? sources.slice(0, limit).map((source, index) => [source, sources[(index + 1) % sources.length]])
+      : sources.slice(0, limit).map(source => [source]);
+
+    for (const group of groups) {
+      if (new Set(group).size !== group.length) {
+        continue;
+      }
+      cases.push({ relation, sources: group, followUp: relation.followUp(group.map(source => source.input)) });
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Collapses whitespace and applies NFC so only real output differences count
+ */
+export function normalizeForRelation(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+export function checkRelation(relation: MetamorphicRelation, sourceOutputs: string[], followUpOutput: string): RelationResult {
+  const expected = normalizeForRelation(relation.expectedOutput(sourceOutputs.map(normalizeForRelation)));
+  const actual = normalizeForRelation(followUpOutput);
+  return { passed: actual === expected, expected, actual };
+}
@@ -0,0 +1,152 @@
+import { TestCase } from '../testData';
+import { transliterate } from './transliterator';
+
+/**
+ * Machine-checkable oracles for negative test cases, selected through `expectedType`.
+ *
+ * `expectedType` holds one or more oracle specs separated by ";", each written as
+ * `kind` or `kind:parameter`. All oracles must hold for the case to pass.
+ * - attempted-translation: output is non-empty and differs from the input (the default)
+ * - contains-leftover-latin[:tokens]: output still contains Latin letters, or each
+ *   comma-separated token when given
+ * - differs-from-reference[:singlish]: output differs from the reference transliteration
+ *   of the parameter (the intended, well-formed Singlish), or of the input itself
+ * - contains-symbol-passthrough[:symbols]: output keeps the given symbols, or every
+ *   symbol found in the input
+ * - output-equals-snapshot:text: output equals the given text exactly
+ */
+
+export type OracleKind =
+  | 'attempted-translation'
+  | 'contains-leftover-latin'
+  | 'differs-from-reference'
+  | 'contains-symbol-passthrough'
+  | 'output-equals-snapshot';
+
+export interface OracleSpec {
+  kind: OracleKind;
+  param?: string;
+}
+
+export interface OracleResult {
+  spec: OracleSpec;
+  passed: boolean;
+  detail: string;
+}
+
+export interface OracleVerdict {
+  passed: boolean;
+  // The first failing oracle, or the last one evaluated when all pass
+  decidedBy: OracleResult;
+  results: OracleResult[];
+}
+
+const ORACLE_KINDS: OracleKind[] = [
+  'attempted-translation',
+  'contains-leftover-latin',
+  'differs-from-reference',
+  'contains-symbol-passthrough',
+  'output-equals-snapshot',
+];
+
+// Kinds that cannot be evaluated without a parameter
+const PARAM_REQUIRED: OracleKind[] = ['output-equals-snapshot'];
+
+const SYMBOL = /[^\p{L}\p{M}\p{N}\s]/gu;
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parses an `expectedType` value into oracle specs; throws on unknown kinds
+ */
+export function parseExpectedType(expectedType?: string): OracleSpec[] {
+  if (!expectedType || !expectedType.trim()) {
+    return [{ kind: 'attempted-translation' }];
+  }
+
+  return expectedType.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const separator = part.indexOf(':');
+    const kind = (separator === -1 ? part : part.slice(0, separator)).trim() as OracleKind;
+    const param = separator === -1 ? undefined : part.slice(separator + 1).trim();
+
+    if (!ORACLE_KINDS.includes(kind)) {
+      throw new Error(`Unknown oracle "${kind}" (expected one of ${ORACLE_KINDS.join(', ')})`);
+    }
+    if (PARAM_REQUIRED.includes(kind) && !param) {
+      throw new Error(`Oracle "${kind}" needs a parameter, e.g. ${kind}:<text>`);
+    }
+
+    return param ? { kind, param } : { kind };
+  });
+}
+
+/**
+ * Evaluates a single oracle against the translator output
+ */
+export function evaluateOracle(spec: OracleSpec, testCase: TestCase, output: string): OracleResult {
+  const actual = normalize(output);
+
+  switch (spec.kind) {
+    case 'attempted-translation': {
+      const passed = actual.length > 0 && actual !== normalize(testCase.input);
+      return { spec, passed, detail: passed ? 'output is non-empty and differs from the input' : 'output is empty or equal to the input' };
+    }
+
+    case 'contains-leftover-latin': {
+      if (spec.param) {
+        const missing = spec.param.split(',').map(token => token.trim()).filter(token => token && !actual.includes(token));
+        return { spec, passed: missing.length === 0, detail: missing.length === 0 ? `output keeps ${spec.param}` : `output lost ${missing.join(', ')}` };
+      }
+      const latin = actual.match(/[A-Za-z]+/g) || [];
+      return { spec, passed: latin.length > 0, detail: latin.length > 0 ? `leftover Latin: ${latin.join(' ')}` : 'output contains no Latin letters' };
+    }
+
+    case 'differs-from-reference': {
+      const reference = normalize(transliterate(spec.param ?? testCase.input));
+      const passed = actual !== reference;
+      return { spec, passed, detail: passed ? `output differs from reference "${reference}"` : `output equals reference "${reference}"` };
+    }
+
+    case 'contains-symbol-passthrough': {
+      const symbols = Array.from(new Set(spec.param ? Array.from(spec.param) : testCase.input.match(SYMBOL) || []));
+      const missing = symbols.filter(symbol => !actual.includes(symbol));
+      const passed = symbols.length > 0 && missing.length === 0;
+      return { spec, passed, detail: passed ? `output keeps ${symbols.join(' ')}` : `output is missing ${missing.join(' ') || '(no symbols to check)'}` };
+    }
+
+    case 'output-equals-snapshot': {
+      const snapshot = normalize(spec.param ?? '');
+      const passed = actual === snapshot;
+      return { spec, passed, detail: passed ? 'output equals the snapshot' : `expected snapshot "${snapshot}"` };
+    }
+  }
+}
+
+/**
+ * Evaluates every oracle selected by the case's `expectedType`; a value that
+ * names no oracle (e.g. ";") falls back to the default
+ */
+export function evaluateOracles(testCase: TestCase, output: string): OracleVerdict {
+  const specs = parseExpectedType(testCase.expectedType);
+  if (specs.length === 0) {
+    specs.push({ kind: 'attempted-translation' });
+  }
+  const results = specs.map(spec => evaluateOracle(spec, testCase, output));
+  const failed = results.find(result => !result.passed);
+
+  return {
+    passed: !failed,
+    decidedBy: failed ?? results[results.length - 1],
+    results,
+  };
+}
+
+/**
+ * One-line description of an oracle result, e.g. "differs-from-reference: output differs ..."
+ */
+export function describeOracleResult(result: OracleResult): string {
+  const name = result.spec.param ? `${result.spec.kind}:${result.spec.param}` : result.spec.kind;
+  return `${name} ${result.passed ? 'passed' : 'failed'}: ${result.detail}`;
+}
@@ -0,0 +1,42 @@
+import { TestInfo } from '@playwright/test';
+import { TestCase } from '../testData';
+
+/**
+ * Annotations the spec records for reporters: which TestCase a test ran,
+ * the translation output it observed and how long the output took to settle.
+ */
+
+export const TEST_CASE_ANNOTATION = 'test-case';
+export const ACTUAL_OUTPUT_ANNOTATION = 'actual-output';
+export const LATENCY_ANNOTATION = 'latency-ms';
+
+/**
+ * Records the id of the TestCase a test is running
+ */
+export function recordTestCase(testInfo: TestInfo, testCase: TestCase) {
+  testInfo.annotations.push({ type: TEST_CASE_ANNOTATION, description: testCase.id });
+}
+
+/**
+ * Records the translation output extracted from the page
+ */
+export function recordActualOutput(testInfo: TestInfo, output: string) {
+  testInfo.annotations.push({ type: ACTUAL_OUTPUT_ANNOTATION, description: output });
+}
+
+/**
+ * Records the time from last keystroke to stable output (nothing when unmeasured)
+ */
+export function recordLatency(testInfo: TestInfo, latencyMs: number | null) {
+  if (latencyMs !== null) {
+    testInfo.annotations.push({ type: LATENCY_ANNOTATION, description: String(latencyMs) });
+  }
+}
+
+/**
+ * Last description of the given annotation type, if any
+ */
+export function readAnnotation(annotations: { type: string; description?: string }[], type: string): string | undefined {
+  const matches = annotations.filter(annotation => annotation.type === type);
+  return matches.length > 0 ? matches[matches.length - 1].description : undefined;
+}
@@ -0,0 +1,198 @@
+import { TestCase } from '../testData';
+import { transliterate } from './transliterator';
+import { alignSequences } from './graphemeDiff';
+import { splitSyllables } from './keystrokeTimeline';
+
+/**
+ * Sinhala → Singlish reverse transliterator and round-trip check.
+ * reverse() maps Sinhala back to the canonical spelling of the scheme in
+ * transliterator.ts; canonical() rewrites any Singlish spelling into that same
+ * form (forward, then reverse). For a positive case, canonical(input) should equal
+ * reverse(output): syllables that differ point at either a romanisation the
+ * translator reads differently or a translator bug.
+ */
+
+const VIRAMA = '්';
+const ZWJ = '\u200D';
+const ZWNJ = '\u200C';
+
+// Canonical Singlish for each consonant (the spelling transliterator.ts reads back to it)
+const CONSONANTS: Record<string, string> = {
+  'ක': 'k',
+  'ඛ': 'kh',
+  'ග': 'g',
+  'ඝ': 'gh',
+  'ඞ': 'ng',
+  'ඟ': 'ng',
+  'ච': 'ch',
+  'ඡ': 'chh',
+  'ජ': 'j',
+  'ඣ': 'jh',
+  'ඤ': 'ny',
+  'ඥ': 'gn',
+  'ට': 't',
+  'ඨ': 'T',
+  'ඩ': 'd',
+  'ඪ': 'D',
+  'ණ': 'N',
+  'ඬ': 'nd',
+  'ත': 'th',
+  'ථ': 'Th',
+  'ද': 'dh',
+  'ධ': 'Dh',
+  'න': 'n',
+  'ඳ': 'ndh',
+  'ප': 'p',
+  'ඵ': 'ph',
+  'බ': 'b',
+  'භ': 'bh',
+  'ම': 'm',
+  'ඹ': 'mb',
+  'ය': 'y',
+  'ර': 'r',
+  'ල': 'l',
+  'ව': 'v',
+  'ශ': 'sh',
+  'ෂ': 'Sh',
+  'ස': 's',
+  'හ': 'h',
+  'ළ': 'L',
+  'ෆ': 'f',
+};
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'අ': 'a',
+  'ආ': 'aa',
+  'ඇ': 'ae',
+  'ඈ': 'aee',
+  'ඉ': 'i',
+  'ඊ': 'ii',
+  'උ': 'u',
+  'ඌ': 'uu',
+  'ඍ': 'ru',
+  'එ': 'e',
+  'ඒ': 'ee',
+  'ඓ': 'ai',
+  'ඔ': 'o',
+  'ඕ': 'oo',
+  'ඖ': 'au',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ා': 'aa',
+  'ැ': 'ae',
+  'ෑ': 'aee',
+  'ි': 'i',
+  'ී': 'ii',
+  'ු': 'u',
+  'ූ': 'uu',
+  'ෘ': 'ru',
+  'ෲ': 'ruu',
+  'ෙ': 'e',
+  'ේ': 'ee',
+  'ෛ': 'ai',
+  'ො': 'o',
+  'ෝ': 'oo',
+  'ෞ': 'au',
+};
+
+// Anusvara and visarga
+const MODIFIERS: Record<string, string> = {
+  'ං': 'ng',
+  'ඃ': 'h',
+};
+
+export interface SyllableMismatch {
+  // Syllable of canonical(input), empty when the output has an extra syllable
+  expected: string;
+  // Syllable of reverse(output), empty when it is missing from the output
+  actual: string;
+}
+
+export interface RoundTripResult {
+  id: string;
+  canonicalInput: string;
+  reversedOutput: string;
+  passed: boolean;
+  mismatches: SyllableMismatch[];
+}
+
+/**
+ * Maps Sinhala text back to canonical Singlish; everything else passes through
+ */
+export function reverseTransliterate(text: string): string {
+  const chars = Array.from(text.normalize('NFC'));
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (CONSONANTS[char] !== undefined) {
+      output += CONSONANTS[char];
+      const next = chars[i + 1];
+      if (next === VIRAMA) {
+        // Hal kirima (or the first half of a yansaya/rakaransaya conjunct): no vowel
+        i++;
+        while (chars[i + 1] === ZWJ || chars[i + 1] === ZWNJ) {
+          i++;
+        }
+      } else if (next !== undefined && VOWEL_SIGNS[next] !== undefined) {
+        output += VOWEL_SIGNS[next];
+        i++;
+      } else {
+        // Inherent vowel
+        output += 'a';
+      }
+      continue;
+    }
+
+    if (INDEPENDENT_VOWELS[char] !== undefined) {
+      output += INDEPENDENT_VOWELS[char];
+    } else if (MODIFIERS[char] !== undefined) {
+      output += MODIFIERS[char];
+    } else if (char !== ZWJ && char !== ZWNJ) {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Canonical spelling of a Singlish string. Words that `keep` contains verbatim
+ * (English words the translator passes through) stay as they are.
+ */
+export function canonicalSinglish(input: string, keep = ''): string {
+  const kept = new Set(keep.split(/\s+/).filter(word => /[A-Za-z]/.test(word)));
+  return input
+    .trim()
+    .split(/\s+/)
+    .map(word => (kept.has(word) ? word : reverseTransliterate(transliterate(word))))
+    .join(' ');
+}
+
+/**
+ * Compares canonical(input) with reverse(output) syllable by syllable
+ */
+export function roundTrip(testCase: TestCase, output: string): RoundTripResult {
+  const canonicalInput = canonicalSinglish(testCase.input, output);
+  const reversedOutput = reverseTransliterate(output.trim().replace(/\s+/g, ' '));
+
+  const mismatches = alignSequences(splitSyllables(canonicalInput), splitSyllables(reversedOutput))
+    .filter(op => op.kind !== 'equal')
+    .map(op => ({ expected: op.expected ?? '', actual: op.actual ?? '' }));
+
+  return { id: testCase.id, canonicalInput, reversedOutput, passed: mismatches.length === 0, mismatches };
+}
+
+/**
+ * One-line summary for the report, e.g. `canonical "mama" vs reversed "mamaa": ma → maa`
+ */
+export function describeRoundTrip(result: RoundTripResult): string {
+  const header = `canonical "${result.canonicalInput}" vs reversed "${result.reversedOutput}"`;
+  if (result.passed) {
+    return `${header}: round-trips`;
+  }
+  const syllables = result.mismatches.map(mismatch => `${mismatch.expected.trim() || '∅'} → ${mismatch.actual.trim() || '∅'}`);
+  return `${header}: ${syllables.join(', ')}`;
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Resolved-selector cache for the output locator.
+ * The last selector that located the output is stored per site origin so the
+ * next run can try it before walking the discovery strategies again.
+ *
+ * SELECTOR_CACHE_FILE overrides the file location; set it to "off" to disable the cache.
+ */
+
+export interface CachedSelector {
+  // Strategy that originally found the selector
+  strategy: string;
+  selector: string;
+  updatedAt: string;
+}
+
+type SelectorCache = Record<string, CachedSelector>;
+
+export const DEFAULT_SELECTOR_CACHE_FILE = path.resolve(__dirname, '..', '..', '.cache', 'output-selector.json');
+
+/**
+ * Cache file path, or null when the cache is disabled
+ */
+export function resolveSelectorCacheFile(): string | null {
+  const value = (process.env.SELECTOR_CACHE_FILE || '').trim();
+  if (value.toLowerCase() === 'off') {
+    return null;
+  }
+  return value ? path.resolve(value) : DEFAULT_SELECTOR_CACHE_FILE;
+}
+
+function readCache(file: string): SelectorCache {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as SelectorCache;
+  } catch (e) {
+    // Missing or corrupt cache: start over
+    return {};
+  }
+}
+
+function writeCache(file: string, cache: SelectorCache) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename so parallel workers never read a half-written file
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(cache, null, 2), 'utf8');
+  fs.renameSync(tmp, file);
+}
+
+export function readCachedSelector(origin: string): CachedSelector | undefined {
+  const file = resolveSelectorCacheFile();
+  return file ? readCache(file)[origin] : undefined;
+}
+
+/**
+ * Stores the selector for the origin (skips the write when nothing changed)
+ */
+export function writeCachedSelector(origin: string, strategy: string, selector: string) {
+  const file = resolveSelectorCacheFile();
+  if (!file) {
+    return;
+  }
+
+  const cache = readCache(file);
+  if (cache[origin]?.selector === selector && cache[origin]?.strategy === strategy) {
+    return;
+  }
+  cache[origin] = { strategy, selector, updatedAt: new Date().toISOString() };
+  writeCache(file, cache);
+}
+
+export function forgetCachedSelector(origin: string) {
+  const file = resolveSelectorCacheFile();
+  if (!file) {
+    return;
+  }
+
+  const cache = readCache(file);
+  if (cache[origin]) {
+    delete cache[origin];
+    writeCache(file, cache);
+  }
+}
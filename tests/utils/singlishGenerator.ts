@@ -0,0 +1,132 @@
+/**
+ * Seeded generator of random but plausible Singlish input for fuzzing.
+ * Words are built from a syllable grammar (onset consonant or cluster, short or
+ * long vowel, optional coda) and mixed with English words, digits and punctuation.
+ */
+
+export type TokenKind = 'phonetic' | 'english' | 'digits' | 'punctuation';
+
+export interface GeneratedToken {
+  kind: TokenKind;
+  text: string;
+  // Syllables of a phonetic word (empty for other kinds)
+  syllables: string[];
+}
+
+export interface GeneratedInput {
+  text: string;
+  tokens: GeneratedToken[];
+}
+
+export interface GeneratorOptions {
+  // Number of words/tokens (default 1–6)
+  minTokens?: number;
+  maxTokens?: number;
+  // Relative weights of the token kinds
+  weights?: Partial<Record<TokenKind, number>>;
+}
+
+export type Random = () => number;
+
+const SIMPLE_ONSETS = ['k', 'g', 'ch', 'j', 't', 'd', 'th', 'dh', 'n', 'p', 'b', 'm', 'y', 'r', 'l', 'v', 's', 'sh', 'h', 'L', 'N', 'T', 'D'];
+const CLUSTER_ONSETS = ['kr', 'gr', 'pr', 'br', 'thr', 'dhr', 'ky', 'vy', 'shr', 'sv', 'st'];
+const SHORT_VOWELS = ['a', 'i', 'u', 'e', 'o', 'ae'];
+const LONG_VOWELS = ['aa', 'ii', 'uu', 'ee', 'oo', 'aee', 'ai', 'au'];
+const CODAS = ['n', 'm', 'k', 't', 's', 'l', 'r', 'ya'];
+const ENGLISH_WORDS = ['phone', 'email', 'Zoom', 'WhatsApp', 'office', 'meeting', 'bus', 'OK', 'PDF', 'laptop'];
+const PUNCTUATION = ['.', ',', '?', '!', ':', '-'];
+
+const DEFAULT_WEIGHTS: Record<TokenKind, number> = {
+  phonetic: 8,
+  english: 1,
+  digits: 1,
+  punctuation: 1,
+};
+
+/**
+ * mulberry32: small deterministic PRNG returning floats in [0, 1)
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function between(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * One syllable: onset (mostly single consonants, sometimes a cluster or none) + vowel + optional coda
+ */
+export function generateSyllable(random: Random): string {
+  const roll = random();
+  const onset = roll < 0.1 ? '' : roll < 0.25 ? pick(random, CLUSTER_ONSETS) : pick(random, SIMPLE_ONSETS);
+  const vowel = random() < 0.3 ? pick(random, LONG_VOWELS) : pick(random, SHORT_VOWELS);
+  const coda = random() < 0.2 ? pick(random, CODAS) : '';
+  return onset + vowel + coda;
+}
+
+export function generateToken(random: Random, kind: TokenKind): GeneratedToken {
+  switch (kind) {
+    case 'phonetic': {
+      const syllables = Array.from({ length: between(random, 1, 4) }, () => generateSyllable(random));
+      return { kind, text: syllables.join(''), syllables };
+    }
+    case 'english':
+      return { kind, text: pick(random, ENGLISH_WORDS), syllables: [] };
+    case 'digits': {
+      const text = random() < 0.3
+        ? `${between(random, 1, 12)}:${String(between(random, 0, 59)).padStart(2, '0')}`
+        : String(between(random, 0, 9999));
+      return { kind, text, syllables: [] };
+    }
+    case 'punctuation':
+      return { kind, text: pick(random, PUNCTUATION), syllables: [] };
+  }
+}
+
+/**
+ * Joins tokens with spaces; punctuation attaches to the previous token
+ */
+export function joinTokens(tokens: GeneratedToken[]): string {
+  return tokens
+    .map((token, index) => (token.kind === 'punctuation' || index === 0 ? token.text : ` ${token.text}`))
+    .join('')
+    .trim();
+}
+
+/**
+ * A random Singlish string; always starts with a phonetic word so the input is translatable
+ */
+export function generateSinglish(random: Random, options: GeneratorOptions = {}): GeneratedInput {
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const kinds = Object.keys(weights) as TokenKind[];
+  const total = kinds.reduce((sum, kind) => sum + weights[kind], 0);
+  const count = between(random, options.minTokens ?? 1, options.maxTokens ?? 6);
+
+  const tokens: GeneratedToken[] = [generateToken(random, 'phonetic')];
+  while (tokens.length < count) {
+    let roll = random() * total;
+    const kind = kinds.find(candidate => (roll -= weights[candidate]) < 0) ?? 'phonetic';
+    tokens.push(generateToken(random, kind));
+  }
+
+  return { text: joinTokens(tokens), tokens };
+}
+
+/**
+ * True when the tokens contain at least one phonetic (Singlish) word
+ */
+export function isPhonetic(tokens: GeneratedToken[]): boolean {
+  return tokens.some(token => token.kind === 'phonetic');
+}
@@ -0,0 +1,135 @@
+import { TestInfo } from '@playwright/test';
+import { splitGraphemes } from './graphemes';
+import { describeCodePoints } from './graphemeDiff';
+
+/**
+ * Structural well-formedness checks for Sinhala text read from the translator.
+ * Flags marks without a base letter, doubled viramas, ZWJ/ZWNJ outside a
+ * conjunct, broken yansaya/rakaransaya/repaya sequences and non-NFC text.
+ */
+
+export type SinhalaIssueKind =
+  | 'orphan-sign'
+  | 'double-virama'
+  | 'misplaced-joiner'
+  | 'invalid-conjunct'
+  | 'not-nfc';
+
+export interface SinhalaIssue {
+  kind: SinhalaIssueKind;
+  // Code point index in the text
+  index: number;
+  // The offending sequence (with its base character when there is one)
+  sequence: string;
+  message: string;
+}
+
+const VIRAMA = '\u0DCA';
+const ZWJ = '\u200D';
+const ZWNJ = '\u200C';
+const RAYANNA = '\u0DBB';
+
+const isConsonant = (char: string | undefined) => !!char && char >= '\u0D9A' && char <= '\u0DC6';
+const isVowelSign = (char: string | undefined) => !!char && ((char >= '\u0DCF' && char <= '\u0DDF') || char === '\u0DF2' || char === '\u0DF3');
+// Anusvara, visarga and candrabindu
+const isModifier = (char: string | undefined) => !!char && char >= '\u0D81' && char <= '\u0D83';
+const isIndependentVowel = (char: string | undefined) => !!char && char >= '\u0D85' && char <= '\u0D96';
+
+/**
+ * Checks the text and returns every issue found (empty when well-formed)
+ */
+export function validateSinhala(text: string): SinhalaIssue[] {
+  const issues: SinhalaIssue[] = [];
+  const chars = Array.from(text);
+  const issue = (kind: SinhalaIssueKind, index: number, start: number, end: number, message: string) => {
+    issues.push({ kind, index, sequence: chars.slice(Math.max(start, 0), end).join(''), message });
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const previous = chars[i - 1];
+    const next = chars[i + 1];
+
+    if (isVowelSign(char)) {
+      // A vowel sign attaches to a consonant; a second sign is only valid as the decomposed half of a two-part sign (not-nfc)
+      const decomposedPair = isVowelSign(previous) && (previous + char).normalize('NFC').length === 1;
+      if (!isConsonant(previous) && !decomposedPair) {
+        issue('orphan-sign', i, i - 1, i + 1, `vowel sign ${describeCodePoints(char).join(' ')} does not follow a consonant`);
+      }
+    } else if (char === VIRAMA) {
+      if (previous === VIRAMA) {
+        issue('double-virama', i, i - 1, i + 1, 'virama repeated');
+      } else if (!isConsonant(previous) && !(previous === ZWJ && isConsonant(chars[i - 2]))) {
+        issue('orphan-sign', i, i - 1, i + 1, 'virama does not follow a consonant');
+      }
+    } else if (isModifier(char)) {
+      if (!isConsonant(previous) && !isVowelSign(previous) && !isIndependentVowel(previous)) {
+        issue('orphan-sign', i, i - 1, i + 1, `${describeCodePoints(char).join(' ')} has no base letter`);
+      }
+    } else if (char === ZWJ) {
+      if (isConsonant(previous) && next === VIRAMA) {
+        // Touching letters: consonant + ZWJ + virama + consonant
+        continue;
+      }
+      if (previous !== VIRAMA) {
+        issue('misplaced-joiner', i, i - 1, i + 2, 'ZWJ outside a conjunct');
+      } else if (!isConsonant(next)) {
+        issue('invalid-conjunct', i, i - 2, i + 2, 'virama + ZWJ is not followed by a consonant');
+      } else if (chars[i - 2] === RAYANNA && next === RAYANNA) {
+        // Repaya and rakaransaya on the same ra
+        issue('invalid-conjunct', i, i - 2, i + 2, 'repaya joined to ra');
+      } else if (chars[i + 2] === VIRAMA && chars[i + 3] === ZWJ && chars[i + 4] === chars[i + 1]) {
+        issue('invalid-conjunct', i, i - 2, i + 5, `${describeCodePoints(next).join(' ')} conjunct repeated`);
+      }
+    } else if (char === ZWNJ) {
+      // ZWNJ only makes sense after a virama, to keep the consonants apart
+      if (previous !== VIRAMA) {
+        issue('misplaced-joiner', i, i - 1, i + 2, 'ZWNJ does not follow a virama');
+      } else if (next === ZWJ) {
+        issue('misplaced-joiner', i, i - 2, i + 2, 'ZWNJ and ZWJ combined');
+      }
+    }
+  }
+
+  // Report non-NFC text per grapheme cluster so the location is visible
+  if (text !== text.normalize('NFC')) {
+    let index = 0;
+    for (const cluster of splitGraphemes(text)) {
+      if (cluster !== cluster.normalize('NFC')) {
+        issues.push({
+          kind: 'not-nfc',
+          index,
+          sequence: cluster,
+          message: `not NFC: ${describeCodePoints(cluster).join(' ')} should be ${describeCodePoints(cluster.normalize('NFC')).join(' ')}`,
+        });
+      }
+      index += Array.from(cluster).length;
+    }
+  }
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * One line per issue for the report attachment
+ */
+export function formatSinhalaIssues(text: string, issues: SinhalaIssue[]): string {
+  const lines = [`Output: ${text}`, `${issues.length} issue(s)`];
+  for (const issue of issues) {
+    lines.push(`[${issue.kind}] at ${issue.index} "${issue.sequence}": ${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Validates a translator output and attaches the findings to the test (nothing when well-formed)
+ */
+export async function attachSinhalaValidation(testInfo: TestInfo, output: string): Promise<SinhalaIssue[]> {
+  const issues = validateSinhala(output);
+  if (issues.length > 0) {
+    const kinds = Array.from(new Set(issues.map(issue => issue.kind)));
+    testInfo.annotations.push({ type: 'sinhala-validity', description: `${issues.length} issue(s): ${kinds.join(', ')}` });
+    await testInfo.attach('sinhala-validation.txt', { body: formatSinhalaIssues(output, issues), contentType: 'text/plain' });
+  }
+  return issues;
+}
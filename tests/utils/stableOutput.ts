@@ -0,0 +1,118 @@
+import { Locator } from '@playwright/test';
+
+/**
+ * Output-stability wait built on a MutationObserver inside the page.
+ * Replaces fixed sleeps: resolves as soon as the element's text has not changed
+ * for a quiet window, and fails with diagnostics when that does not happen in time.
+ */
+
+export interface StableOutputOptions {
+  // How long the text must stay unchanged (ms)
+  quietMs?: number;
+  // Overall limit (ms)
+  timeout?: number;
+  // Text seen before the action; when given, the text must first change away from it
+  baseline?: string;
+  // Do not settle on empty text
+  requireText?: boolean;
+}
+
+export interface StableOutputResult {
+  text: string;
+  // Number of text changes observed while waiting
+  changes: number;
+  elapsedMs: number;
+}
+
+interface PageWaitResult extends StableOutputResult {
+  settled: boolean;
+  lastChangeMs: number;
+}
+
+/**
+ * Reads the text the stability wait observes: value for form fields, textContent otherwise
+ */
+export async function readOutputText(locator: Locator): Promise<string> {
+  return locator.evaluate(el =>
+    el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement ? el.value : el.textContent || '',
+  );
+}
+
+/**
+ * Waits until the element's text stops changing for `quietMs`
+ */
+export async function waitForStableOutput(locator: Locator, options: StableOutputOptions = {}): Promise<StableOutputResult> {
+  const quietMs = options.quietMs ?? 300;
+  const timeout = options.timeout ?? 10000;
+
+  const result: PageWaitResult = await locator.evaluate(
+    (el, { quietMs, timeout, baseline, requireText }) =>
+      new Promise<PageWaitResult>(resolve => {
+        const read = () =>
+          el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement ? el.value : el.textContent || '';
+        const start = performance.now();
+        let text = read();
+        let changes = 0;
+        let lastChange = start;
+        let changedFromBaseline = baseline === undefined || text !== baseline;
+
+        const finish = (settled: boolean) => {
+          observer.disconnect();
+          clearInterval(timer);
+          resolve({
+            settled,
+            text,
+            changes,
+            elapsedMs: Math.round(performance.now() - start),
+            lastChangeMs: Math.round(lastChange - start),
+          });
+        };
+
+        const check = () => {
+          const now = performance.now();
+          const current = read();
+          if (current !== text) {
+            text = current;
+            changes++;
+            lastChange = now;
+            if (baseline !== undefined && current !== baseline) {
+              changedFromBaseline = true;
+            }
+          }
+
+          const quiet = now - lastChange >= quietMs;
+          if (quiet && changedFromBaseline && (!requireText || text.trim().length > 0)) {
+            finish(true);
+          } else if (now - start >= timeout) {
+            finish(false);
+          }
+        };
+
+        // Mutations catch DOM output; the interval covers textarea values and the quiet window itself
+        const observer = new MutationObserver(check);
+        observer.observe(el, { childList: true, characterData: true, subtree: true, attributes: true });
+        const timer = setInterval(check, 50);
+      }),
+    { quietMs, timeout, baseline: options.baseline, requireText: options.requireText ?? false },
+  );
+
+  if (!result.settled) {
+    const reasons = [];
+    if (options.baseline !== undefined && result.changes === 0) {
+      reasons.push('text never changed from its previous value');
+    }
+    if (options.requireText && !result.text.trim()) {
+      reasons.push('text is still empty');
+    }
+    if (reasons.length === 0) {
+      reasons.push(`text kept changing (last change at ${result.lastChangeMs}ms, needs ${quietMs}ms quiet)`);
+    }
+
+    throw new Error(
+      `Output did not stabilise within ${timeout}ms: ${reasons.join('; ')}. ` +
+      `${result.changes} change(s) observed, current text "${result.text.trim().slice(0, 200)}"`,
+    );
+  }
+
+  return { text: result.text, changes: result.changes, elapsedMs: result.elapsedMs };
+}
@@ -0,0 +1,32 @@
+/**
+ * Selects which translator the suite runs against.
+ * - live: the real https://www.swifttranslator.com site (default)
+ * - mock: the bundled local stand-in started through the config's webServer
+ */
+export type TranslatorTarget = 'live' | 'mock';
+
+export const LIVE_TRANSLATOR_URL = 'https://www.swifttranslator.com';
+
+export const MOCK_TRANSLATOR_PORT = Number(process.env.MOCK_TRANSLATOR_PORT) || 4173;
+
+export const MOCK_TRANSLATOR_URL = `http://127.0.0.1:${MOCK_TRANSLATOR_PORT}`;
+
+/**
+ * Reads the target from TRANSLATOR_TARGET, falling back to the live site
+ */
+export function resolveTarget(): TranslatorTarget {
+  const value = (process.env.TRANSLATOR_TARGET || 'live').trim().toLowerCase();
+
+  if (value !== 'live' && value !== 'mock') {
+    throw new Error(`Unknown TRANSLATOR_TARGET "${value}" (expected "live" or "mock")`);
+  }
+
+  return value;
+}
+
+/**
+ * Base URL used by page.goto('/') for the given target
+ */
+export function resolveBaseURL(target: TranslatorTarget = resolveTarget()): string {
+  return target === 'mock' ? MOCK_TRANSLATOR_URL : LIVE_TRANSLATOR_URL;
+}
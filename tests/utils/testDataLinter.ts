@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { TestCase } from '../testData';
+import { loadTestCases } from './dataLoader';
+import { parseExpectedType } from './negativeOracles';
+import { parseMatchMode } from './matchModes';
+import { CATEGORY_TAGS, isCategoryTag } from './categories';
+
+/**
+ * Validates test cases before a run. Catches the mistakes the compiler does not:
+ * - unique-id: every id appears once
+ * - id-format: ids look like Pos_Fun_0001 / Neg_Fun_0001 / Pos_UI_0001 and the prefix matches `type`
+ * - length-type: `lengthType` matches the input length thresholds
+ * - pure-sinhala: positive `expected` values are Sinhala, apart from words copied from the input
+ * - sequential-id: id numbers run 1, 2, 3, ... in declaration order
+ * - expected-type: `expectedType` names at least one oracle, all of them known (see negativeOracles.ts)
+ * - match-mode: `matchMode` is a known match mode (see matchModes.ts)
+ * - tags: every tag is a known category (see categories.ts) and appears once per case
+ * - duplicate-key: a case object in testData.ts declares the same field twice
+ */
+
+export type LintRule =
+  | 'unique-id'
+  | 'id-format'
+  | 'length-type'
+  | 'pure-sinhala'
+  | 'sequential-id'
+  | 'expected-type'
+  | 'match-mode'
+  | 'tags'
+  | 'duplicate-key';
+
+export interface LintIssue {
+  id: string;
+  rule: LintRule;
+  message: string;
+}
+
+/**
+ * Maximum input length (in characters) for S and M cases; anything longer is L
+ */
+export interface LengthThresholds {
+  shortMax: number;
+  mediumMax: number;
+}
+
+// Assignment definition: S ≤ 30, M 31–299, L ≥ 300 characters
+export const DEFAULT_LENGTH_THRESHOLDS: LengthThresholds = {
+  shortMax: 30,
+  mediumMax: 299,
+};
+
+export const TEST_DATA_SOURCE = path.resolve(__dirname, '..', 'testData.ts');
+
+const ID_PREFIXES: Record<string, TestCase['type']> = {
+  Pos_Fun: 'positive',
+  Neg_Fun: 'negative',
+  Pos_UI: 'ui',
+};
+
+const ID_PATTERN = /^(Pos_Fun|Neg_Fun|Pos_UI)_(\d{4})$/;
+
+// Sinhala block, joiners, digits, whitespace and common punctuation
+const SINHALA_TEXT = /^[\u0D80-\u0DFF\u200C\u200D0-9\s.,!?;:()'"\-/%&@#$*+=]*$/;
+
+/**
+ * Length type an input of this length should be labelled with
+ */
+export function expectedLengthType(input: string, thresholds: LengthThresholds = DEFAULT_LENGTH_THRESHOLDS): TestCase['lengthType'] {
+  const length = input.length;
+  if (length <= thresholds.shortMax) {
+    return 'S';
+  }
+  return length <= thresholds.mediumMax ? 'M' : 'L';
+}
+
+/**
+ * Runs every data-level rule over the given cases
+ */
+export function lintTestCases(cases: TestCase[], thresholds: LengthThresholds = DEFAULT_LENGTH_THRESHOLDS): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const seen = new Set<string>();
+  let previousNumber = 0;
+
+  for (const testCase of cases) {
+    const { id } = testCase;
+
+    if (seen.has(id)) {
+      issues.push({ id, rule: 'unique-id', message: 'id is used by more than one test case' });
+    }
+    seen.add(id);
+
+    const match = id.match(ID_PATTERN);
+    if (!match) {
+      issues.push({ id, rule: 'id-format', message: 'id must look like Pos_Fun_0001, Neg_Fun_0001 or Pos_UI_0001' });
+    } else {
+      const prefixType = ID_PREFIXES[match[1]];
+      if (prefixType !== testCase.type) {
+        issues.push({ id, rule: 'id-format', message: `prefix ${match[1]} means type "${prefixType}" but type is "${testCase.type}"` });
+      }
+
+      const number = Number(match[2]);
+      if (number !== previousNumber + 1) {
+        issues.push({ id, rule: 'sequential-id', message: `expected number ${String(previousNumber + 1).padStart(4, '0')} after the previous case` });
+      }
+      previousNumber = number;
+    }
+
+    const lengthType = expectedLengthType(testCase.input, thresholds);
+    if (lengthType !== testCase.lengthType) {
+      issues.push({
+        id,
+        rule: 'length-type',
+        message: `input is ${testCase.input.length} characters, so lengthType should be ${lengthType} (is ${testCase.lengthType})`,
+      });
+    }
+
+    if (testCase.expectedType !== undefined) {
+      try {
+        // Blank means the default oracle; a list of empty specs (e.g. ";") is a mistake
+        if (testCase.expectedType.trim() && parseExpectedType(testCase.expectedType).length === 0) {
+          issues.push({ id, rule: 'expected-type', message: `expectedType "${testCase.expectedType}" names no oracle` });
+        }
+      } catch (e) {
+        issues.push({ id, rule: 'expected-type', message: (e as Error).message });
+      }
+    }
+
+    if (testCase.matchMode !== undefined) {
+      try {
+        parseMatchMode(testCase.matchMode);
+      } catch (e) {
+        issues.push({ id, rule: 'match-mode', message: (e as Error).message });
+      }
+    }
+
+    if (testCase.tags !== undefined) {
+      const unknown = testCase.tags.filter(tag => !isCategoryTag(tag));
+      if (unknown.length > 0) {
+        issues.push({ id, rule: 'tags', message: `unknown tag(s) ${unknown.join(', ')} (expected one of ${CATEGORY_TAGS.join(', ')})` });
+      }
+      if (new Set(testCase.tags).size !== testCase.tags.length) {
+        issues.push({ id, rule: 'tags', message: 'a tag is listed more than once' });
+      }
+    }
+
+    if (testCase.type === 'positive') {
+      // Latin words are allowed only when they are carried over from the input
+      const foreignWords = (testCase.expected.match(/[A-Za-z]+/g) || []).filter(word => !testCase.input.includes(word));
+      const stripped = testCase.expected.replace(/[A-Za-z]+/g, '');
+
+      if (!/[\u0D80-\u0DFF]/.test(testCase.expected)) {
+        issues.push({ id, rule: 'pure-sinhala', message: 'expected value contains no Sinhala' });
+      } else if (foreignWords.length > 0) {
+        issues.push({ id, rule: 'pure-sinhala', message: `expected value contains Latin text not present in the input: ${foreignWords.join(', ')}` });
+      } else if (!SINHALA_TEXT.test(stripped)) {
+        const unexpected = Array.from(new Set(stripped.replace(/[\u0D80-\u0DFF\u200C\u200D0-9\s.,!?;:()'"\-/%&@#$*+=]/g, '')));
+        issues.push({ id, rule: 'pure-sinhala', message: `expected value contains unexpected characters: ${unexpected.join(' ')}` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Finds object literals in a TypeScript data file that declare the same property twice.
+ * Such duplicates are silently collapsed at runtime, so they can only be seen in the source.
+ */
+export function lintSourceFile(file: string): LintIssue[] {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.ES2020, true);
+  const issues: LintIssue[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isObjectLiteralExpression(node)) {
+      const names = new Set<string>();
+      let caseId = `${path.basename(file)}:${source.getLineAndCharacterOfPosition(node.getStart()).line + 1}`;
+
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property) && property.name.getText(source) === 'id' && ts.isStringLiteral(property.initializer)) {
+          caseId = property.initializer.text;
+        }
+      }
+
+      for (const property of node.properties) {
+        if (!property.name) {
+          continue;
+        }
+        const name = property.name.getText(source).replace(/^['"]|['"]$/g, '');
+        if (names.has(name)) {
+          issues.push({ id: caseId, rule: 'duplicate-key', message: `field "${name}" is declared more than once` });
+        }
+        names.add(name);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(source);
+  return issues;
+}
+
+/**
+ * Lints testData.ts (source and values) together with the cases from the data directory
+ */
+export function lintAllTestData(thresholds: LengthThresholds = DEFAULT_LENGTH_THRESHOLDS): LintIssue[] {
+  return [...lintSourceFile(TEST_DATA_SOURCE), ...lintTestCases(loadTestCases(), thresholds)];
+}
+
+/**
+ * Readable multi-line report, grouped by test case id
+ */
+export function formatLintReport(issues: LintIssue[]): string {
+  if (issues.length === 0) {
+    return 'Test data lint: no issues found';
+  }
+
+  const byId = new Map<string, LintIssue[]>();
+  for (const issue of issues) {
+    byId.set(issue.id, [...(byId.get(issue.id) || []), issue]);
+  }
+
+  const lines = [`Test data lint: ${issues.length} issue(s) in ${byId.size} test case(s)`];
+  for (const [id, caseIssues] of byId) {
+    lines.push(`  ${id}`);
+    for (const issue of caseIssues) {
+      lines.push(`    [${issue.rule}] ${issue.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
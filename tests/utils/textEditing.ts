@@ -0,0 +1,158 @@
+import { Page, Locator } from '@playwright/test';
+
+/**
+ * Text editing scenarios for the input: caret moves, mid-word inserts,
+ * backspacing, pasting, select-all-replace and undo, performed with the keyboard
+ * the way a user edits existing text (instead of clear() + fill()).
+ * After the edits the output must match a fresh translation of whatever the
+ * input now holds (see editing.spec.ts).
+ */
+
+export type EditStep =
+  // Moves the caret to a character offset with the arrow keys
+  | { kind: 'caret'; offset: number }
+  | { kind: 'type'; text: string }
+  | { kind: 'backspace'; count: number }
+  | { kind: 'paste'; text: string }
+  | { kind: 'select-all' }
+  | { kind: 'undo' };
+
+export interface EditingScenario {
+  name: string;
+  // Input text before the edits (entered with fill), caret at the end
+  initial: string;
+  steps: EditStep[];
+  // Checks the input text after the edits; returns the problem, or null
+  checkInput: (value: string) => string | null;
+}
+
+function inputEquals(expected: string): (value: string) => string | null {
+  return value => (value === expected ? null : `expected the input to be "${expected}"`);
+}
+
+export const EDITING_SCENARIOS: EditingScenario[] = [
+  {
+    name: 'insert letters in the middle of a word',
+    initial: 'mama gedara yanava',
+    steps: [{ kind: 'caret', offset: 8 }, { kind: 'type', text: 'h' }],
+    checkInput: inputEquals('mama gedhara yanava'),
+  },
+  {
+    name: 'backspace across a syllable boundary',
+    initial: 'mama dhaen enavaa',
+    steps: [{ kind: 'backspace', count: 4 }],
+    checkInput: inputEquals('mama dhaen en'),
+  },
+  {
+    name: 'backspace across a syllable boundary and retype',
+    initial: 'mama dhaen enavaa',
+    steps: [{ kind: 'backspace', count: 4 }, { kind: 'type', text: 'avaa' }],
+    checkInput: inputEquals('mama dhaen enavaa'),
+  },
+  {
+    name: 'paste multi-line text',
+    initial: '',
+    steps: [{ kind: 'paste', text: 'mama gedhara yanavaa\napi heta enavaa' }],
+    checkInput: inputEquals('mama gedhara yanavaa\napi heta enavaa'),
+  },
+  {
+    name: 'paste into the middle of existing text',
+    initial: 'mama yanavaa',
+    steps: [{ kind: 'caret', offset: 5 }, { kind: 'paste', text: 'gedhara ' }],
+    checkInput: inputEquals('mama gedhara yanavaa'),
+  },
+  {
+    name: 'select all and replace',
+    initial: 'mama dhaen enavaa',
+    steps: [{ kind: 'select-all' }, { kind: 'type', text: 'api heta yanava' }],
+    checkInput: inputEquals('api heta yanava'),
+  },
+  {
+    name: 'undo typed text',
+    initial: 'mama gedhara',
+    steps: [{ kind: 'type', text: ' yanavaa' }, { kind: 'undo' }],
+    // How much one undo reverts differs between engines, so only require that some typing was undone
+    checkInput: value =>
+      value !== 'mama gedhara yanavaa' && 'mama gedhara yanavaa'.startsWith(value) && value.length >= 'mama gedhara'.length
+        ? null
+        : 'expected undo to revert part of " yanavaa"',
+  },
+];
+
+/**
+ * Caret position (start of the selection) in the input
+ */
+async function caretOffset(input: Locator): Promise<number> {
+  return input.evaluate(el => (el as HTMLTextAreaElement).selectionStart ?? 0);
+}
+
+/**
+ * Pastes through a paste event carrying the text; when the page does not handle
+ * the event itself the text is inserted as the browser's default action would.
+ * Works the same on every engine, without clipboard permissions.
+ */
+async function paste(page: Page, input: Locator, text: string) {
+  const handled = await input.evaluate((el, pasted) => {
+    const clipboardData = new DataTransfer();
+    clipboardData.setData('text/plain', pasted);
+    const event = new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true });
+    return !el.dispatchEvent(event);
+  }, text);
+
+  if (!handled) {
+    await page.keyboard.insertText(text);
+  }
+}
+
+/**
+ * Performs one edit on the focused input
+ */
+export async function performEdit(page: Page, input: Locator, step: EditStep) {
+  switch (step.kind) {
+    case 'caret': {
+      const distance = step.offset - await caretOffset(input);
+      const key = distance < 0 ? 'ArrowLeft' : 'ArrowRight';
+      for (let i = 0; i < Math.abs(distance); i++) {
+        await page.keyboard.press(key);
+      }
+      break;
+    }
+    case 'type':
+      await page.keyboard.type(step.text);
+      break;
+    case 'backspace':
+      for (let i = 0; i < step.count; i++) {
+        await page.keyboard.press('Backspace');
+      }
+      break;
+    case 'paste':
+      await paste(page, input, step.text);
+      break;
+    case 'select-all':
+      // Meta on macOS, Control elsewhere
+      await page.keyboard.press('ControlOrMeta+A');
+      break;
+    case 'undo':
+      await page.keyboard.press('ControlOrMeta+Z');
+      break;
+  }
+}
+
+/**
+ * Short label for reports, e.g. `caret 8, type "h"`
+ */
+export function describeEdits(steps: EditStep[]): string {
+  return steps.map(step => {
+    switch (step.kind) {
+      case 'caret':
+        return `caret ${step.offset}`;
+      case 'type':
+      case 'paste':
+        return `${step.kind} ${JSON.stringify(step.text)}`;
+      case 'backspace':
+        return `backspace ×${step.count}`;
+      default:
+        return step.kind;
+    }
+  }).join(', ');
+}
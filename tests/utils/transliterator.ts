@@ -0,0 +1,227 @@
+import { TestCase } from '../testData';
+
+/**
+ * Reference Singlish → Sinhala transliterator used as a test oracle.
+ * Implements the phonetic scheme the test data is written in:
+ * - a / aa / ae / aee, i / ii, u / uu, e / ee, o / oo vowels (independent or as signs)
+ * - dental vs retroflex pairs: th/t, dh/d, n/N, l/L
+ * - hal kirima (්) on consonants not followed by a vowel
+ * - yansaya (්‍ය) and rakaransaya (්‍ර) for consonant + y/r + vowel
+ * Anything that is not Singlish (digits, punctuation, unknown letters) passes through.
+ */
+
+const VIRAMA = '්';
+const ZWJ = '\u200D';
+
+// Case-sensitive consonants: capitals select the aspirated/retroflex letter
+const CASED_CONSONANTS: [string, string][] = [
+  ['Th', 'ථ'],
+  ['Dh', 'ධ'],
+  ['Sh', 'ෂ'],
+  ['Ch', 'ඡ'],
+  ['T', 'ඨ'],
+  ['D', 'ඪ'],
+  ['N', 'ණ'],
+  ['L', 'ළ'],
+  ['K', 'ඛ'],
+  ['G', 'ඝ'],
+  ['B', 'භ'],
+  ['P', 'ඵ'],
+];
+
+// Matched against the lower-cased input, longest first
+const CONSONANTS: [string, string][] = [
+  ['chh', 'ඡ'],
+  ['th', 'ත'],
+  ['dh', 'ද'],
+  ['sh', 'ශ'],
+  ['ch', 'ච'],
+  ['kh', 'ඛ'],
+  ['gh', 'ඝ'],
+  ['bh', 'භ'],
+  ['ph', 'ඵ'],
+  ['jh', 'ඣ'],
+  ['k', 'ක'],
+  ['g', 'ග'],
+  ['c', 'ච'],
+  ['j', 'ජ'],
+  ['t', 'ට'],
+  ['d', 'ඩ'],
+  ['n', 'න'],
+  ['p', 'ප'],
+  ['b', 'බ'],
+  ['m', 'ම'],
+  ['y', 'ය'],
+  ['r', 'ර'],
+  ['l', 'ල'],
+  ['v', 'ව'],
+  ['w', 'ව'],
+  ['s', 'ස'],
+  ['h', 'හ'],
+  ['f', 'ෆ'],
+];
+
+// [singlish, independent vowel, vowel sign]; 'a' is inherent so its sign is empty
+const VOWELS: [string, string, string][] = [
+  ['aee', 'ඈ', 'ෑ'],
+  ['aa', 'ආ', 'ා'],
+  ['ae', 'ඇ', 'ැ'],
+  ['ai', 'ඓ', 'ෛ'],
+  ['au', 'ඖ', 'ෞ'],
+  ['a', 'අ', ''],
+  ['ii', 'ඊ', 'ී'],
+  ['i', 'ඉ', 'ි'],
+  ['uu', 'ඌ', 'ූ'],
+  ['u', 'උ', 'ු'],
+  ['ee', 'ඒ', 'ේ'],
+  ['e', 'එ', 'ෙ'],
+  ['oo', 'ඕ', 'ෝ'],
+  ['o', 'ඔ', 'ො'],
+];
+
+function matchConsonant(input: string, index: number): [string, string] | null {
+  for (const entry of CASED_CONSONANTS) {
+    if (input.startsWith(entry[0], index)) {
+      return entry;
+    }
+  }
+
+  const lower = input.toLowerCase();
+  for (const entry of CONSONANTS) {
+    if (lower.startsWith(entry[0], index)) {
+      return entry;
+    }
+  }
+
+  return null;
+}
+
+function matchVowel(input: string, index: number): [string, string, string] | null {
+  const lower = input.toLowerCase();
+  for (const entry of VOWELS) {
+    if (lower.startsWith(entry[0], index)) {
+      return entry;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Computes the reference Sinhala rendering of a Singlish string
+ */
+export function transliterate(input: string): string {
+  let output = '';
+  let index = 0;
+
+  while (index < input.length) {
+    const consonant = matchConsonant(input, index);
+
+    if (consonant) {
+      output += consonant[1];
+      index += consonant[0].length;
+
+      // Yansaya / rakaransaya: consonant + y/r directly followed by a vowel
+      const next = input[index];
+      if ((next === 'y' || next === 'r') && consonant[0] !== next && matchVowel(input, index + 1)) {
+        output += VIRAMA + ZWJ + (next === 'y' ? 'ය' : 'ර');
+        index += 1;
+      }
+
+      const vowel = matchVowel(input, index);
+      if (vowel) {
+        output += vowel[2];
+        index += vowel[0].length;
+      } else {
+        // Hal kirima: a bare consonant takes the virama
+        output += VIRAMA;
+      }
+      continue;
+    }
+
+    const vowel = matchVowel(input, index);
+    if (vowel) {
+      output += vowel[1];
+      index += vowel[0].length;
+      continue;
+    }
+
+    output += input[index];
+    index += 1;
+  }
+
+  return output;
+}
+
+/**
+ * Outcome of comparing the test data, the reference oracle and (optionally) the site
+ * - all-agree: every available source produces the same text
+ * - data-differs: no site output; the data disagrees with the oracle
+ * - data-mismatch: site and oracle agree, the data file is likely wrong
+ * - site-mismatch: data and oracle agree, the site is likely wrong
+ * - oracle-mismatch: site and data agree, the oracle does not cover this input
+ * - all-differ: all three sources disagree
+ */
+export type OracleVerdict =
+  | 'all-agree'
+  | 'data-differs'
+  | 'data-mismatch'
+  | 'site-mismatch'
+  | 'oracle-mismatch'
+  | 'all-differ';
+
+export interface OracleComparison {
+  id: string;
+  input: string;
+  expected: string;
+  oracle: string;
+  actual?: string;
+  verdict: OracleVerdict;
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Cross-checks a test case's expected value against the oracle, and against
+ * the site output when one is given
+ */
+export function crossCheck(testCase: TestCase, actual?: string): OracleComparison {
+  const expected = normalize(testCase.expected);
+  const oracle = normalize(transliterate(testCase.input));
+  const comparison: OracleComparison = { id: testCase.id, input: testCase.input, expected, oracle, verdict: 'all-agree' };
+
+  if (actual === undefined) {
+    comparison.verdict = expected === oracle ? 'all-agree' : 'data-differs';
+    return comparison;
+  }
+
+  const site = normalize(actual);
+  comparison.actual = site;
+
+  if (site === expected && expected === oracle) {
+    comparison.verdict = 'all-agree';
+  } else if (site === oracle) {
+    comparison.verdict = 'data-mismatch';
+  } else if (expected === oracle) {
+    comparison.verdict = 'site-mismatch';
+  } else if (site === expected) {
+    comparison.verdict = 'oracle-mismatch';
+  } else {
+    comparison.verdict = 'all-differ';
+  }
+
+  return comparison;
+}
+
+/**
+ * One-line human readable description of a comparison
+ */
+export function describeComparison(comparison: OracleComparison): string {
+  const parts = [`${comparison.id} [${comparison.verdict}]`, `expected: ${comparison.expected}`, `oracle: ${comparison.oracle}`];
+  if (comparison.actual !== undefined) {
+    parts.push(`site: ${comparison.actual}`);
+  }
+  return parts.join(' | ');
+}
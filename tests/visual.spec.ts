@@ -0,0 +1,33 @@
+import { test, expect } from './fixtures';
+import { loadTestCases } from './utils/dataLoader';
+import { formatTitleTags } from './utils/categories';
+
+/**
+ * Visual regression suite: screenshots the output container for every positive
+ * case and compares it with a stored baseline, so conjuncts (e.g. kṣa, śrī) and
+ * yansaya that fonts or CSS break into separate glyphs are caught even when the
+ * text itself is correct.
+ *
+ * Baselines live in visual.spec.ts-snapshots/, one per case, browser project and
+ * platform; the tolerance is set under `expect.toHaveScreenshot` in playwright.config.ts.
+ * Only runs with VISUAL_TESTS=1 (npm run test:visual); record or accept baselines
+ * with `npm run test:visual:update`.
+ */
+
+const positiveTests = loadTestCases().filter(tc => tc.type === 'positive');
+
+test.describe('Visual Tests', () => {
+  for (const testCase of positiveTests) {
+    test(`Visual: ${testCase.id} - ${testCase.name}${formatTitleTags(testCase)}`, async ({ translator, page }) => {
+      const result = await translator.translate(testCase.input);
+      test.info().annotations.push({ type: 'rendered-output', description: result.output });
+
+      // Glyph shaping depends on the web fonts, so wait until they have loaded
+      await page.evaluate(() => document.fonts.ready.then(() => undefined));
+
+      // Cropped to the output container; on mismatch the HTML report shows expected, actual and diff images
+      const output = await translator.output();
+      await expect(output).toHaveScreenshot(`${testCase.id}.png`);
+    });
+  }
+});